@@ -3,25 +3,108 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect, useCallback } from 'react';
-import { RagStore, Document, QueryResult, CustomMetadata } from './types';
-import * as geminiService from './services/geminiService';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { RagStore, Document, CompareConfig, FileSearchOptions, QueryResult, QuerySource, QueryTelemetry, ExportedSession, QueryHistoryEntry, CustomMetadata, DocumentUpdate, BulkItem, BulkOperation, StoreTransferJob, DocumentPage, UploadDuplicate, UploadDuplicateAction, ChatMessage, ChatThread, ModelSettings, UploadQueueItem, ChunkingConfig } from './types';
+import { BackendId } from './services/retrievalBackend';
+import { BACKENDS, getBackend, loadBackendId, saveBackendId } from './services/backends';
+import { DEFAULT_MODEL_SETTINGS, loadModelSettings, saveModelSettings } from './services/modelSettings';
+import { createBackendUpload, createUploadQueue, isFinished } from './services/uploadQueue';
+import { formatCost, summarizeTelemetry } from './services/telemetry';
+import { createSessionExport, downloadText, parseSessionJson, sessionFileName, sessionToJson, sessionToMarkdown } from './services/sessionExport';
+import { listPendingOperations } from './services/operationTracker';
+import { applyDocumentUpdate, mergeMetadata } from './services/documentUpdate';
+import { BULK_CONCURRENCY, createDocumentManifest, runBulkOperation } from './services/bulkOperations';
+import { listDocumentPages } from './services/documentQuery';
+import { addHistoryEntry, clearHistory, deleteHistoryEntry, listHistory, setHistoryPinned } from './services/queryHistory';
+import { findUploadDuplicates, listCachedFiles, pruneCachedStore } from './services/fileCache';
+import { StoreTransferRequest, clearTransferJob, createTransferJob, createTransferJobSaver, loadTransferJob, prepareTransferResume, runStoreTransfer } from './services/storeTransfer';
 import Spinner from './components/Spinner';
 import RagStoreList from './components/RagStoreList';
 import DocumentList from './components/DocumentList';
 import QueryInterface from './components/QueryInterface';
+import EvaluationPanel from './components/EvaluationPanel';
+import ComparePanel from './components/ComparePanel';
+import UsageDashboard from './components/UsageDashboard';
+import QueryHistoryPanel, { canRerun } from './components/QueryHistoryPanel';
+import QueryHistoryDetail from './components/QueryHistoryDetail';
+import StoreTransferModal from './components/StoreTransferModal';
+import StoreTransferPanel from './components/StoreTransferPanel';
+import DuplicateUploadModal from './components/DuplicateUploadModal';
+import DocumentPreviewModal from './components/DocumentPreviewModal';
+
+const UPLOAD_CONCURRENCY = 3;
+
+type QueryView = 'chat' | 'compare' | 'evaluate';
+
+const QUERY_VIEWS: { id: QueryView, label: string, title: string }[] = [
+    { id: 'chat', label: 'Chat', title: 'Ask questions one at a time' },
+    { id: 'compare', label: 'Compare', title: 'Run the same query with two stores, models or settings side by side' },
+    { id: 'evaluate', label: 'Evaluate', title: 'Score retrieval against a set of questions with expected answers and sources' },
+];
 
 const App: React.FC = () => {
     const [stores, setStores] = useState<RagStore[]>([]);
     const [selectedStore, setSelectedStore] = useState<RagStore | null>(null);
+    // Stores searched alongside the selected one. The selected store is always searched.
+    const [searchStoreNames, setSearchStoreNames] = useState<string[]>([]);
     const [documents, setDocuments] = useState<Document[]>([]);
-    const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
+    // Documents are listed a page at a time; this is set while more can be loaded.
+    const [documentsPageToken, setDocumentsPageToken] = useState<string | undefined>();
+    // Documents of the selected store whose original file is in the local cache.
+    const [cachedDocNames, setCachedDocNames] = useState<string[]>([]);
+    // Uploads waiting on a decision about files the store already has.
+    const [pendingUpload, setPendingUpload] = useState<{ storeName: string, files: File[], metadata: CustomMetadata[], chunkingConfig?: ChunkingConfig, duplicates: UploadDuplicate[] } | null>(null);
+    const [modelSettings, setModelSettings] = useState<ModelSettings>(DEFAULT_MODEL_SETTINGS);
+    const [queryView, setQueryView] = useState<QueryView>('chat');
+    const [telemetry, setTelemetry] = useState<QueryTelemetry[]>([]);
+    const [sessionStartedAt, setSessionStartedAt] = useState(Date.now);
+    const [isUsageOpen, setIsUsageOpen] = useState(false);
+    const [importedSession, setImportedSession] = useState<ExportedSession | null>(null);
+    const [history, setHistory] = useState<QueryHistoryEntry[]>([]);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [historyDetail, setHistoryDetail] = useState<{ entry: QueryHistoryEntry, rerun?: QueryHistoryEntry, isRerunning: boolean, error?: string } | null>(null);
+    // A new object per request, so asking for the same document again still scrolls to it.
+    const [focusedDocument, setFocusedDocument] = useState<{ name: string } | null>(null);
+    const [preview, setPreview] = useState<{ document: Document, chunks: string[], focusIndex: number } | null>(null);
+    // Conversation threads are kept per store so switching stores doesn't lose them.
+    const [threadsByStore, setThreadsByStore] = useState<Record<string, ChatThread[]>>({});
+    const [activeThreadIds, setActiveThreadIds] = useState<Record<string, string>>({});
     const [isLoadingStores, setIsLoadingStores] = useState(false);
     const [isLoadingDocuments, setIsLoadingDocuments] = useState(false);
+    const [isLoadingMoreDocuments, setIsLoadingMoreDocuments] = useState(false);
+    const [bulkOperation, setBulkOperation] = useState<BulkOperation | null>(null);
+    // A clone or move between stores; saved as it runs so it survives a reload.
+    const [transferJob, setTransferJob] = useState<StoreTransferJob | null>(loadTransferJob);
+    const [isTransferRunning, setIsTransferRunning] = useState(false);
+    const [transferDialog, setTransferDialog] = useState<{ mode: 'clone' | 'move', sourceStore: RagStore, docNames: string[] } | null>(null);
     const [isQuerying, setIsQuerying] = useState(false);
     const [processingFile, setProcessingFile] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [initialized, setInitialized] = useState(false);
+    const [backendId, setBackendId] = useState<BackendId>(loadBackendId);
+    // The upload queue and async handlers read the backend through a ref so they
+    // never hold on to the one that was selected when they were created.
+    const backendRef = useRef(getBackend(backendId));
+    const resumedOperationsRef = useRef(false);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const rerunAbortControllerRef = useRef<AbortController | null>(null);
+    const bulkAbortControllerRef = useRef<AbortController | null>(null);
+    const transferAbortControllerRef = useRef<AbortController | null>(null);
+    const loadMoreAbortControllerRef = useRef<AbortController | null>(null);
+    // Handlers that outlive a store switch read the current store and documents
+    // here, since their closures hold the ones from when they started.
+    const selectedStoreRef = useRef(selectedStore);
+    selectedStoreRef.current = selectedStore;
+    const documentsRef = useRef(documents);
+    documentsRef.current = documents;
+    const [uploadItems, setUploadItems] = useState<UploadQueueItem[]>([]);
+    const [uploadQueue] = useState(() => createUploadQueue({
+        concurrency: UPLOAD_CONCURRENCY,
+        upload: createBackendUpload(() => backendRef.current),
+        onChange: setUploadItems,
+    }));
+    const isUploading = uploadItems.some(item => !isFinished(item));
+    const wasUploadingRef = useRef(false);
 
     const handleError = (message: string, err?: any) => {
         console.error(message, err);
@@ -37,16 +120,89 @@ const App: React.FC = () => {
         }
     };
     
+    const createThread = (title: string, messages: ChatMessage[] = []): ChatThread => ({
+        id: crypto.randomUUID(),
+        title,
+        messages,
+    });
+
+    const searchStores = selectedStore
+        ? [selectedStore, ...stores.filter(s => s.name !== selectedStore.name && searchStoreNames.includes(s.name))]
+        : [];
+
+    const storeDisplayName = (storeName?: string) =>
+        stores.find(s => s.name === storeName)?.displayName || storeName?.split('/').pop();
+
+    const threads = selectedStore ? threadsByStore[selectedStore.name] || [] : [];
+    const activeThread = threads.find(t => t.id === activeThreadIds[selectedStore?.name ?? '']) || threads[0] || null;
+
+    const updateThreads = (storeName: string, update: (threads: ChatThread[]) => ChatThread[]) => {
+        setThreadsByStore(prev => ({ ...prev, [storeName]: update(prev[storeName] || []) }));
+    };
+
+    // Every answered query counts, including stopped ones, since they are billed too.
+    const recordQuery = (source: QuerySource, settings: ModelSettings, result: QueryResult) => {
+        const backend = backendRef.current;
+        setTelemetry(prev => [...prev, {
+            timestamp: Date.now(),
+            source,
+            model: backend.id === 'gemini' ? settings.model : backend.label,
+            usage: result.usage,
+            latencyMs: result.latencyMs,
+        }]);
+        return result;
+    };
+
+    // History is a convenience, so failing to save it never interrupts a query.
+    const saveToHistory = (entry: Omit<QueryHistoryEntry, 'id' | 'timestamp' | 'pinned'>) => {
+        const saved: QueryHistoryEntry = { ...entry, id: crypto.randomUUID(), timestamp: Date.now(), pinned: false };
+        setHistory(prev => [saved, ...prev]);
+        addHistoryEntry(saved).catch(err => console.error('Failed to save query history', err));
+        return saved;
+    };
+
+    // Once a listing covers the whole store, cached files of documents deleted
+    // elsewhere are dropped. Cache problems are only logged.
+    const syncFileCache = async (storeName: string, page: DocumentPage, listedAt: number) => {
+        try {
+            if (!page.nextPageToken) {
+                await pruneCachedStore(storeName, page.documents.map(doc => doc.name), listedAt);
+            }
+            setCachedDocNames((await listCachedFiles(storeName)).map(entry => entry.docName));
+        } catch (err) {
+            console.error('Failed to read the local file cache', err);
+        }
+    };
+
+    // Lists at least as many documents as before, so a refresh doesn't lose the loaded pages.
+    // Does nothing for a store that is no longer selected, which a long bulk
+    // operation may have outlived.
+    const refreshDocuments = async (storeName: string) => {
+        // Store-level counts and sizes change with the documents; a stale
+        // summary is better than failing the refresh, so errors only get logged.
+        backendRef.current.listRagStores().then(setStores).catch(err => console.error('Failed to refresh store details', err));
+        if (selectedStoreRef.current?.name !== storeName) return;
+        const listedAt = Date.now();
+        const page = await listDocumentPages(backendRef.current, storeName, documentsRef.current.length);
+        if (selectedStoreRef.current?.name !== storeName) return;
+        setDocuments(page.documents);
+        setDocumentsPageToken(page.nextPageToken);
+        syncFileCache(storeName, page, listedAt);
+    };
+
     const loadStores = useCallback(async () => {
         setIsLoadingStores(true);
         setError(null);
         try {
-            geminiService.initialize();
-            const fetchedStores = await geminiService.listRagStores();
+            const backend = backendRef.current;
+            await backend.initialize();
+            const fetchedStores = await backend.listRagStores();
             setStores(fetchedStores);
             setInitialized(true);
         } catch (err) {
-            handleError("Failed to load RAG stores. Please ensure your API key is valid and has permissions.", err);
+            handleError(backendRef.current.id === 'gemini'
+                ? "Failed to load RAG stores. Please ensure your API key is valid and has permissions."
+                : `Failed to load RAG stores from the ${backendRef.current.label} backend`, err);
         } finally {
             setIsLoadingStores(false);
         }
@@ -56,12 +212,33 @@ const App: React.FC = () => {
         if (!initialized) {
             loadStores();
         }
-    }, [initialized, loadStores]);
+    }, [initialized, backendId, loadStores]);
+
+    useEffect(() => {
+        listHistory().then(setHistory).catch(err => console.error('Failed to load query history', err));
+    }, []);
+
+    // Pick up imports that were still indexing when the page was last closed.
+    useEffect(() => {
+        if (initialized && backendRef.current.resumeImport && !resumedOperationsRef.current) {
+            resumedOperationsRef.current = true;
+            uploadQueue.resume(listPendingOperations());
+        }
+    }, [initialized, backendId]);
+
+    // Re-list documents once when a batch of uploads drains, rather than after every file.
+    useEffect(() => {
+        if (wasUploadingRef.current && !isUploading && selectedStore) {
+            refreshDocuments(selectedStore.name)
+                .catch(err => handleError(`Failed to load documents for ${selectedStore.displayName}`, err));
+        }
+        wasUploadingRef.current = isUploading;
+    }, [isUploading]);
 
     const handleCreateStore = async (displayName: string) => {
         setIsLoadingStores(true);
         try {
-            await geminiService.createRagStore(displayName);
+            await backendRef.current.createRagStore(displayName);
             await loadStores();
         } catch (err) {
             handleError("Failed to create store", err);
@@ -73,11 +250,13 @@ const App: React.FC = () => {
         if (!window.confirm("Are you sure you want to delete this store and all its documents? This action cannot be undone.")) return;
         setIsLoadingStores(true);
         try {
-            await geminiService.deleteRagStore(storeName);
+            await backendRef.current.deleteRagStore(storeName);
             if (selectedStore?.name === storeName) {
                 setSelectedStore(null);
                 setDocuments([]);
+                setDocumentsPageToken(undefined);
             }
+            setSearchStoreNames(prev => prev.filter(name => name !== storeName));
             await loadStores();
         } catch (err) {
             handleError("Failed to delete store", err);
@@ -88,12 +267,17 @@ const App: React.FC = () => {
     const handleSelectStore = async (store: RagStore) => {
         if (selectedStore?.name === store.name) return;
         setSelectedStore(store);
+        setModelSettings(loadModelSettings(store.name));
         setDocuments([]);
-        setQueryResult(null);
+        setDocumentsPageToken(undefined);
+        setCachedDocNames([]);
         setIsLoadingDocuments(true);
         try {
-            const fetchedDocs = await geminiService.listDocuments(store.name);
-            setDocuments(fetchedDocs);
+            const listedAt = Date.now();
+            const page = await listDocumentPages(backendRef.current, store.name);
+            setDocuments(page.documents);
+            setDocumentsPageToken(page.nextPageToken);
+            syncFileCache(store.name, page, listedAt);
         } catch (err) {
             handleError(`Failed to load documents for ${store.displayName}`, err);
         } finally {
@@ -101,28 +285,93 @@ const App: React.FC = () => {
         }
     };
     
-    const handleUploadDocument = async (file: File, metadata: CustomMetadata[]) => {
-        if (!selectedStore) return;
-        setProcessingFile(file.name);
+    // Stores belong to a backend, so switching starts over with the new one's stores.
+    const handleSelectBackend = (id: BackendId) => {
+        if (id === backendId || isUploading || isTransferRunning) return;
+        abortControllerRef.current?.abort();
+        saveBackendId(id);
+        backendRef.current = getBackend(id);
+        setBackendId(id);
+        setStores([]);
+        setSelectedStore(null);
+        setSearchStoreNames([]);
+        setDocuments([]);
+        setDocumentsPageToken(undefined);
+        setFocusedDocument(null);
+        setError(null);
+        setInitialized(false);
+    };
+
+    // A page still loading belongs to the store that was shown when it started.
+    useEffect(() => {
+        loadMoreAbortControllerRef.current?.abort();
+        loadMoreAbortControllerRef.current = null;
+        setIsLoadingMoreDocuments(false);
+    }, [selectedStore?.name, backendId]);
+
+    const handleLoadMoreDocuments = async (all = false) => {
+        if (!selectedStore || !documentsPageToken || isLoadingMoreDocuments) return;
+        const storeName = selectedStore.name;
+        const abortController = new AbortController();
+        loadMoreAbortControllerRef.current = abortController;
+        setIsLoadingMoreDocuments(true);
         try {
-            await geminiService.uploadToRagStore(selectedStore.name, file, metadata);
-            const fetchedDocs = await geminiService.listDocuments(selectedStore.name);
-            setDocuments(fetchedDocs);
+            const page = await listDocumentPages(backendRef.current, storeName, all ? Infinity : 0, documentsPageToken);
+            if (abortController.signal.aborted) return;
+            setDocuments(prev => [...prev, ...page.documents]);
+            setDocumentsPageToken(page.nextPageToken);
         } catch (err) {
-            handleError(`Failed to upload ${file.name}`, err);
+            if (!abortController.signal.aborted) {
+                handleError(`Failed to load more documents for ${selectedStore.displayName}`, err);
+            }
         } finally {
-            setProcessingFile(null);
+            if (!abortController.signal.aborted) {
+                loadMoreAbortControllerRef.current = null;
+                setIsLoadingMoreDocuments(false);
+            }
         }
     };
 
+    const handleToggleSearchStore = (storeName: string) => {
+        setSearchStoreNames(prev => prev.includes(storeName)
+            ? prev.filter(name => name !== storeName)
+            : [...prev, storeName]);
+    };
+
+    const handleUploadDocuments = async (files: File[], metadata: CustomMetadata[], chunkingConfig?: ChunkingConfig) => {
+        if (!selectedStore) return;
+        const storeName = selectedStore.name;
+        let duplicates: UploadDuplicate[] = [];
+        try {
+            duplicates = await findUploadDuplicates(storeName, files);
+        } catch (err) {
+            // Without the cache there is nothing to compare against, so everything is uploaded.
+            console.error('Failed to check the local file cache for duplicates', err);
+        }
+        if (duplicates.length > 0) {
+            setPendingUpload({ storeName, files, metadata, chunkingConfig, duplicates });
+            return;
+        }
+        uploadQueue.add(storeName, files, metadata, chunkingConfig);
+    };
+
+    const handleConfirmDuplicates = (actions: Map<File, UploadDuplicateAction>) => {
+        if (!pendingUpload) return;
+        const { storeName, files, metadata, chunkingConfig, duplicates } = pendingUpload;
+        const replaces = new Map(duplicates
+            .filter(duplicate => actions.get(duplicate.file) === 'replace')
+            .map(duplicate => [duplicate.file, duplicate.existing.docName]));
+        uploadQueue.add(storeName, files.filter(file => actions.get(file) !== 'skip'), metadata, chunkingConfig, replaces);
+        setPendingUpload(null);
+    };
+
     const handleDeleteDocument = async (docName: string) => {
         if (!selectedStore) return;
         const docDisplayName = documents.find(d => d.name === docName)?.displayName || 'document';
         setProcessingFile(docDisplayName);
         try {
-            await geminiService.deleteDocument(selectedStore.name, docName);
-            const fetchedDocs = await geminiService.listDocuments(selectedStore.name);
-            setDocuments(fetchedDocs);
+            await backendRef.current.deleteDocument(selectedStore.name, docName);
+            await refreshDocuments(selectedStore.name);
         } catch (err) {
             handleError(`Failed to delete ${docDisplayName}`, err);
         } finally {
@@ -130,29 +379,393 @@ const App: React.FC = () => {
         }
     };
 
-    const handleQuery = async (query: string) => {
+    const handleUpdateDocument = async (docName: string, update: DocumentUpdate, file?: File) => {
+        if (!selectedStore) return;
+        const doc = documents.find(d => d.name === docName);
+        if (!doc) return;
+        setProcessingFile(doc.displayName);
+        try {
+            await applyDocumentUpdate(backendRef.current, selectedStore.name, doc, update, file);
+            await refreshDocuments(selectedStore.name);
+        } catch (err) {
+            handleError(`Failed to update ${doc.displayName}`, err);
+        } finally {
+            setProcessingFile(null);
+        }
+    };
+
+    // Runs `work` over the documents a few at a time, then re-lists the store once.
+    // Documents for which `skipReason` returns a reason are reported but not touched.
+    const runBulk = async (label: string, docNames: string[], work: (doc: Document) => Promise<void>, skipReason?: (doc: Document) => string | undefined) => {
+        if (!selectedStore || bulkOperation?.isRunning) return;
+        const storeName = selectedStore.name;
+        const docs = documents.filter(doc => docNames.includes(doc.name));
+        const items = docs.map((doc): BulkItem => {
+            const reason = skipReason?.(doc);
+            return { docName: doc.name, displayName: doc.displayName, status: reason ? 'skipped' : 'queued', error: reason };
+        });
+        const abortController = new AbortController();
+        bulkAbortControllerRef.current = abortController;
+        setBulkOperation({ label, storeName, items, isRunning: true });
+        await runBulkOperation(items, item => work(docs.find(doc => doc.name === item.docName)), {
+            concurrency: BULK_CONCURRENCY,
+            abortSignal: abortController.signal,
+            onChange: updated => setBulkOperation(prev => prev && { ...prev, items: updated }),
+        });
+        bulkAbortControllerRef.current = null;
+        setBulkOperation(prev => prev && { ...prev, isRunning: false });
+        try {
+            await refreshDocuments(storeName);
+        } catch (err) {
+            handleError(`Failed to load documents for ${selectedStore.displayName}`, err);
+        }
+    };
+
+    const handleBulkDelete = (docNames: string[]) => {
+        if (!selectedStore || bulkOperation?.isRunning) return false;
+        if (!window.confirm(`Delete ${docNames.length} ${docNames.length === 1 ? 'document' : 'documents'} from ${selectedStore.displayName}? This action cannot be undone.`)) return false;
+        const storeName = selectedStore.name;
+        runBulk('Deleting documents', docNames, doc => backendRef.current.deleteDocument(storeName, doc.name));
+        return true;
+    };
+
+    const handleBulkTag = (docNames: string[], entries: CustomMetadata[], removeKeys: string[], files: File[]) => {
+        if (!selectedStore || bulkOperation?.isRunning) return false;
+        const storeName = selectedStore.name;
+        const backend = backendRef.current;
+        const filesByName = new Map(files.map(file => [file.name, file]));
+        runBulk(
+            'Tagging documents',
+            docNames,
+            doc => applyDocumentUpdate(backend, storeName, doc, {
+                displayName: doc.displayName,
+                customMetadata: mergeMetadata(doc.customMetadata, entries, removeKeys),
+            }, filesByName.get(doc.displayName)),
+            doc => !backend.updateDocument && !filesByName.has(doc.displayName) && !cachedDocNames.includes(doc.name)
+                ? 'No cached copy, and no file with this name was chosen'
+                : undefined,
+        );
+        return true;
+    };
+
+    // Stores only report counts on some backends; the loaded documents are a floor.
+    const storeDocumentCount = (store: RagStore) => {
+        const counts = [store.activeDocumentsCount, store.pendingDocumentsCount, store.failedDocumentsCount];
+        if (counts.every(count => count === undefined)) return store.name === selectedStore?.name && !documentsPageToken ? documents.length : undefined;
+        return counts.reduce((total, count) => total + (count ?? 0), 0);
+    };
+
+    const runTransfer = async (job: StoreTransferJob, files: File[]) => {
+        const abortController = new AbortController();
+        transferAbortControllerRef.current = abortController;
+        setIsTransferRunning(true);
+        const saver = createTransferJobSaver();
+        const handleChange = (updated: StoreTransferJob) => {
+            setTransferJob(updated);
+            saver.save(updated);
+        };
+        handleChange(job);
+        try {
+            await runStoreTransfer(backendRef.current, job, { files, abortSignal: abortController.signal, onChange: handleChange });
+        } finally {
+            saver.flush();
+            transferAbortControllerRef.current = null;
+            setIsTransferRunning(false);
+        }
+        await loadStores();
+        const shownStore = selectedStoreRef.current;
+        if (shownStore && [job.sourceStore.name, job.targetStore.name].includes(shownStore.name)) {
+            await refreshDocuments(shownStore.name);
+        }
+    };
+
+    const handleConfirmTransfer = async (request: StoreTransferRequest) => {
+        if (!transferDialog || isTransferRunning) return;
+        const { mode, sourceStore, docNames } = transferDialog;
+        const backend = backendRef.current;
+        try {
+            let targetStore = stores.find(store => store.name === request.targetStoreName);
+            if (request.newStoreName) {
+                targetStore = { name: await backend.createRagStore(request.newStoreName), displayName: request.newStoreName };
+            }
+            if (!targetStore) {
+                throw new Error('The target store no longer exists. Refresh the store list and pick another.');
+            }
+            const sourceDocuments = mode === 'clone'
+                ? await backend.listDocuments(sourceStore.name)
+                : documents.filter(doc => docNames.includes(doc.name));
+            const verb = mode === 'clone' ? 'Cloning' : request.deleteSource ? 'Moving' : 'Copying';
+            await runTransfer(createTransferJob({
+                label: `${verb} ${sourceStore.displayName} to ${targetStore.displayName}`,
+                backendId: backend.id,
+                sourceStore,
+                targetStore,
+                documents: sourceDocuments,
+                chunkingConfig: request.chunkingConfig,
+                deleteSource: request.deleteSource,
+            }), request.files);
+        } catch (err) {
+            handleError(`Failed to ${mode === 'clone' ? 'clone' : 'move documents from'} ${sourceStore.displayName}`, err);
+        }
+    };
+
+    const handleResumeTransfer = async (files: File[]) => {
+        if (!transferJob || isTransferRunning) return;
+        try {
+            const backend = backendRef.current;
+            const unfinished = transferJob.items.filter(item => item.status !== 'done');
+            // Only uploads cut off by a reload need the target checked for copies,
+            // and only a job loaded from storage needs its documents listed again.
+            const [targetDocuments, sourceDocuments] = await Promise.all([
+                unfinished.some(item => item.status === 'running') ? backend.listDocuments(transferJob.targetStore.name) : [],
+                unfinished.some(item => !item.document) ? backend.listDocuments(transferJob.sourceStore.name) : [],
+            ]);
+            await runTransfer(prepareTransferResume(transferJob, targetDocuments, sourceDocuments), files);
+        } catch (err) {
+            handleError(`Failed to resume ${transferJob.label.toLowerCase()}`, err);
+        }
+    };
+
+    const handleDismissTransfer = () => {
+        clearTransferJob();
+        setTransferJob(null);
+    };
+
+    const handleExportManifest = (docNames: string[]) => {
         if (!selectedStore) return;
+        const manifest = createDocumentManifest(selectedStore, documents.filter(doc => docNames.includes(doc.name)));
+        downloadText(`${selectedStore.name.split('/').pop()}-documents.json`, JSON.stringify(manifest, null, 2), 'application/json');
+    };
+
+    const handleQuery = async (query: string, metadataFilter?: string) => {
+        if (!selectedStore) return;
+        const storeName = selectedStore.name;
+        const storeNames = searchStores.map(s => s.name);
+        let thread = activeThread;
+        if (!thread) {
+            thread = createThread(query);
+            const newThread = thread;
+            updateThreads(storeName, prev => [...prev, newThread]);
+            setActiveThreadIds(prev => ({ ...prev, [storeName]: newThread.id }));
+        }
+        const threadId = thread.id;
+        const history = thread.messages;
+        const userMessage: ChatMessage = { role: 'user', parts: [{ text: query }], metadataFilter, storeNames };
+        const updateMessages = (update: (messages: ChatMessage[]) => ChatMessage[]) => {
+            updateThreads(storeName, prev => prev.map(t => t.id === threadId ? {
+                ...t,
+                title: t.messages.length === 0 ? query : t.title,
+                messages: update(t.messages),
+            } : t));
+        };
+
+        // The answer always directly follows its question, replacing any partial
+        // answer streamed so far.
+        const setAnswer = (answer: ChatMessage) => updateMessages(messages => [
+            ...messages.slice(0, messages.indexOf(userMessage) + 1),
+            answer,
+        ]);
+        const rollBack = () => updateMessages(messages => messages.slice(0, messages.indexOf(userMessage)));
+
+        // Show the question right away; it is rolled back if the query fails so
+        // the thread never ends on an unanswered user turn.
+        updateMessages(messages => [...messages, userMessage]);
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
         setIsQuerying(true);
-        setQueryResult(null);
         try {
-            const result = await geminiService.fileSearch(selectedStore.name, query);
-            setQueryResult(result);
+            const result = await backendRef.current.fileSearch(storeNames, query, {
+                history,
+                metadataFilter,
+                settings: modelSettings,
+                abortSignal: abortController.signal,
+                onText: text => setAnswer({ role: 'model', parts: [{ text }] }),
+            });
+            recordQuery('chat', modelSettings, result);
+            if (result.aborted && !result.text) {
+                rollBack();
+            } else {
+                saveToHistory({ query, stores: searchStores, metadataFilter, settings: modelSettings, result });
+                setAnswer({
+                    role: 'model',
+                    parts: [{ text: result.text }],
+                    groundingChunks: result.groundingChunks,
+                    groundingSupports: result.groundingSupports,
+                    aborted: result.aborted,
+                    settings: modelSettings,
+                    answeredBy: result.answeredBy,
+                    usage: result.usage,
+                    latencyMs: result.latencyMs,
+                });
+            }
         } catch (err) {
+            rollBack();
             handleError('Failed to execute query', err);
         } finally {
+            abortControllerRef.current = null;
             setIsQuerying(false);
         }
     };
 
+    const handleEvaluationSearch = (question: string, abortSignal: AbortSignal) =>
+        backendRef.current.fileSearch(searchStores.map(s => s.name), question, { settings: modelSettings, abortSignal })
+            .then(result => recordQuery('evaluate', modelSettings, result));
+
+    const handleCompareSearch = (config: CompareConfig, query: string, options: Pick<FileSearchOptions, 'abortSignal' | 'onText'>) =>
+        backendRef.current.fileSearch(config.storeNames, query, { ...options, settings: config.settings })
+            .then(result => recordQuery('compare', config.settings, result));
+
+    const handleExportSession = (format: 'json' | 'md') => {
+        if (!selectedStore || !activeThread) return;
+        const session = createSessionExport({
+            store: selectedStore,
+            searchStores,
+            documents,
+            modelSettings,
+            thread: activeThread,
+        });
+        if (format === 'json') {
+            downloadText(sessionFileName(session, 'json'), sessionToJson(session), 'application/json');
+        } else {
+            downloadText(sessionFileName(session, 'md'), sessionToMarkdown(session), 'text/markdown');
+        }
+    };
+
+    const handleImportSession = async (file: File) => {
+        try {
+            setImportedSession(parseSessionJson(await file.text()));
+            setQueryView('chat');
+        } catch (err) {
+            handleError(`Failed to import ${file.name}`, err);
+        }
+    };
+
+    const handleViewHistoryEntry = (entry: QueryHistoryEntry) => {
+        rerunAbortControllerRef.current?.abort();
+        setHistoryDetail({ entry, isRerunning: false });
+    };
+
+    // Re-runs go to the same stores with the original settings, so any change in
+    // the answer comes from the documents (or the model) rather than the setup.
+    const handleRerunHistoryEntry = async (entry: QueryHistoryEntry) => {
+        rerunAbortControllerRef.current?.abort();
+        const abortController = new AbortController();
+        rerunAbortControllerRef.current = abortController;
+        setHistoryDetail({ entry, isRerunning: true });
+        const update = (changes: { rerun?: QueryHistoryEntry, error?: string }) =>
+            setHistoryDetail(prev => prev?.entry.id === entry.id ? { ...prev, ...changes, isRerunning: false } : prev);
+        try {
+            const result = await backendRef.current.fileSearch(entry.stores.map(store => store.name), entry.query, {
+                metadataFilter: entry.metadataFilter,
+                settings: entry.settings,
+                abortSignal: abortController.signal,
+            });
+            recordQuery('rerun', entry.settings, result);
+            if (abortController.signal.aborted) return;
+            update({
+                rerun: saveToHistory({
+                    query: entry.query,
+                    stores: entry.stores,
+                    metadataFilter: entry.metadataFilter,
+                    settings: entry.settings,
+                    result,
+                    rerunOf: entry.id,
+                }),
+            });
+        } catch (err) {
+            update({ error: err instanceof Error ? err.message : String(err) });
+        } finally {
+            if (rerunAbortControllerRef.current === abortController) rerunAbortControllerRef.current = null;
+        }
+    };
+
+    const handleCloseHistoryDetail = () => {
+        rerunAbortControllerRef.current?.abort();
+        setHistoryDetail(null);
+    };
+
+    const handleToggleHistoryPin = (entry: QueryHistoryEntry) => {
+        setHistory(prev => prev.map(e => e.id === entry.id ? { ...e, pinned: !entry.pinned } : e));
+        setHistoryPinned(entry.id, !entry.pinned).catch(err => handleError('Failed to update query history', err));
+    };
+
+    const handleDeleteHistoryEntry = (entry: QueryHistoryEntry) => {
+        setHistory(prev => prev.filter(e => e.id !== entry.id));
+        deleteHistoryEntry(entry.id).catch(err => handleError('Failed to update query history', err));
+    };
+
+    const handleClearHistory = () => {
+        if (!window.confirm('Delete every query in the history that is not pinned?')) return;
+        setHistory(prev => prev.filter(entry => entry.pinned));
+        clearHistory().catch(err => handleError('Failed to clear query history', err));
+    };
+
+    const handleResetUsage = () => {
+        setTelemetry([]);
+        setSessionStartedAt(Date.now());
+    };
+
+    const handleSaveSettings = (settings: ModelSettings) => {
+        if (!selectedStore) return;
+        saveModelSettings(selectedStore.name, settings);
+        setModelSettings(settings);
+    };
+
+    const handleShowDocument = (docName: string) => {
+        setFocusedDocument({ name: docName });
+    };
+
+    const handlePreviewDocument = (document: Document, chunks: string[], focusIndex: number) => {
+        setPreview({ document, chunks, focusIndex });
+    };
+
+    // Document names start with their store's name, which may not be the selected one.
+    const loadPreviewFile = async (document: Document) => {
+        const storeName = document.name.split('/documents/')[0];
+        return backendRef.current.getDocumentFile?.(storeName, document);
+    };
+
+    const handleStopQuery = () => {
+        abortControllerRef.current?.abort();
+    };
+
+    const handleSelectThread = (threadId: string) => {
+        if (!selectedStore) return;
+        setActiveThreadIds(prev => ({ ...prev, [selectedStore.name]: threadId }));
+    };
+
+    const handleClearThread = () => {
+        if (!selectedStore || !activeThread) return;
+        const threadId = activeThread.id;
+        updateThreads(selectedStore.name, prev => prev.map(t => t.id === threadId ? { ...t, messages: [] } : t));
+    };
+
+    // Branching copies the conversation up to and including the given message
+    // into a new thread, leaving the original thread untouched.
+    const handleBranchThread = (messageIndex: number) => {
+        if (!selectedStore || !activeThread) return;
+        const storeName = selectedStore.name;
+        const branch = createThread(`${activeThread.title} (branch)`, activeThread.messages.slice(0, messageIndex + 1));
+        updateThreads(storeName, prev => [...prev, branch]);
+        setActiveThreadIds(prev => ({ ...prev, [storeName]: branch.id }));
+    };
+
     const renderContent = () => {
         if (error) {
             return (
                 <div className="flex flex-col items-center justify-center h-screen bg-red-900/20 text-red-300 p-4">
                     <h1 className="text-3xl font-bold mb-4">Application Error</h1>
                     <p className="max-w-md text-center mb-4">{error}</p>
-                    <button onClick={clearError} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors text-gem-offwhite" title="Try Again">
-                       Try Again
-                    </button>
+                    <div className="flex space-x-2">
+                        <button onClick={clearError} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors text-gem-offwhite" title="Try Again">
+                           Try Again
+                        </button>
+                        {!initialized && backendId !== 'local' && (
+                            <button onClick={() => handleSelectBackend('local')} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 transition-colors text-white" title="Switch to the local backend, which works without an API key">
+                                Use local backend
+                            </button>
+                        )}
+                    </div>
                 </div>
             );
         }
@@ -168,14 +781,30 @@ const App: React.FC = () => {
         return (
              <div className="grid grid-cols-1 lg:grid-cols-3 xl:grid-cols-4 h-full">
                 <div className="col-span-1 p-4 border-r border-gem-mist overflow-y-auto bg-gem-slate/50">
+                    <StoreTransferPanel
+                        job={transferJob}
+                        isRunning={isTransferRunning}
+                        canResume={transferJob?.backendId === backendId}
+                        onResume={handleResumeTransfer}
+                        onCancel={() => transferAbortControllerRef.current?.abort()}
+                        onDismiss={handleDismissTransfer}
+                    />
                      <RagStoreList 
                         stores={stores}
                         selectedStore={selectedStore}
+                        searchStoreNames={searchStoreNames}
                         isLoading={isLoadingStores}
                         onCreate={handleCreateStore}
                         onSelect={handleSelectStore}
+                        onToggleSearchStore={handleToggleSearchStore}
                         onDelete={handleDeleteStore}
+                        onClone={store => setTransferDialog({ mode: 'clone', sourceStore: store, docNames: [] })}
+                        canClone={!isTransferRunning}
                         onRefresh={loadStores}
+                        backends={BACKENDS}
+                        backendId={backendId}
+                        canSwitchBackend={!isUploading && !isTransferRunning}
+                        onSelectBackend={handleSelectBackend}
                     />
                 </div>
                 <div className="col-span-1 lg:border-r border-gem-mist overflow-y-auto p-4">
@@ -184,18 +813,126 @@ const App: React.FC = () => {
                         documents={documents}
                         isLoading={isLoadingDocuments}
                         processingFile={processingFile}
-                        onUpload={handleUploadDocument}
+                        focusedDocument={focusedDocument}
+                        uploadItems={uploadItems.filter(item => item.storeName === selectedStore?.name)}
+                        onUpload={handleUploadDocuments}
+                        onRetryUpload={uploadQueue.retry}
+                        onCancelUpload={uploadQueue.cancel}
+                        onClearFinishedUploads={uploadQueue.clearFinished}
                         onDelete={handleDeleteDocument}
+                        hasMoreDocuments={!!documentsPageToken}
+                        isLoadingMore={isLoadingMoreDocuments}
+                        onLoadMore={handleLoadMoreDocuments}
+                        canEditInPlace={!!backendRef.current.updateDocument}
+                        backendLabel={backendRef.current.label}
+                        onUpdate={handleUpdateDocument}
+                        cachedDocNames={cachedDocNames}
+                        bulkOperation={bulkOperation?.storeName === selectedStore?.name ? bulkOperation : null}
+                        onBulkDelete={handleBulkDelete}
+                        onBulkTag={handleBulkTag}
+                        onExportManifest={handleExportManifest}
+                        onMove={docNames => selectedStore && setTransferDialog({ mode: 'move', sourceStore: selectedStore, docNames })}
+                        canMove={!isTransferRunning}
+                        onCancelBulk={() => bulkAbortControllerRef.current?.abort()}
+                        onDismissBulk={() => setBulkOperation(null)}
                     />
                 </div>
-                <div className="col-span-1 lg:col-span-1 xl:col-span-2 p-4 overflow-y-auto">
-                     <QueryInterface 
-                        selectedStore={selectedStore}
-                        documents={documents}
-                        isLoading={isQuerying}
-                        result={queryResult}
-                        onQuery={handleQuery}
-                    />
+                <div className="col-span-1 lg:col-span-1 xl:col-span-2 p-4 overflow-y-auto flex flex-col">
+                    {selectedStore && (
+                        <div className="flex items-center mb-3 shrink-0">
+                            <div className="flex space-x-1" role="tablist">
+                                {QUERY_VIEWS.map(view => (
+                                    <button
+                                        key={view.id}
+                                        role="tab"
+                                        aria-selected={queryView === view.id}
+                                        onClick={() => setQueryView(view.id)}
+                                        className={`px-3 py-1 rounded-md text-sm transition-colors ${queryView === view.id ? 'bg-gem-blue text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                                        title={view.title}
+                                    >
+                                        {view.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <div className="flex-grow" />
+                            <button
+                                onClick={() => setIsHistoryOpen(open => !open)}
+                                aria-pressed={isHistoryOpen}
+                                className={`px-3 py-1 mr-2 rounded-md text-sm transition-colors ${isHistoryOpen ? 'bg-gem-blue text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                                title="Past queries, with search and re-run"
+                            >
+                                History
+                            </button>
+                            <button
+                                onClick={() => setIsUsageOpen(true)}
+                                className="px-3 py-1 rounded-md text-sm bg-gem-mist hover:bg-gem-mist/70 transition-colors"
+                                title="Token usage, latency and estimated cost for this session"
+                            >
+                                Usage · {formatCost(summarizeTelemetry(telemetry).reduce((sum, row) => sum + (row.cost ?? 0), 0))}
+                            </button>
+                        </div>
+                    )}
+                    <div className="flex-grow min-h-0 flex gap-3">
+                        <div className="flex-grow min-w-0">
+                            {selectedStore && queryView === 'evaluate' ? (
+                                <EvaluationPanel
+                                    selectedStore={selectedStore}
+                                    searchStores={searchStores}
+                                    documents={documents}
+                                    modelSettings={modelSettings}
+                                    onSearch={handleEvaluationSearch}
+                                />
+                            ) : selectedStore && queryView === 'compare' ? (
+                                <ComparePanel
+                                    selectedStore={selectedStore}
+                                    stores={stores}
+                                    searchStores={searchStores}
+                                    documents={documents}
+                                    modelSettings={modelSettings}
+                                    onSearch={handleCompareSearch}
+                                    onShowDocument={handleShowDocument}
+                                />
+                            ) : (
+                                <QueryInterface
+                                    selectedStore={selectedStore}
+                                    stores={stores}
+                                    searchStores={searchStores}
+                                    documents={documents}
+                                    hasMoreDocuments={!!documentsPageToken}
+                                    isLoading={isQuerying}
+                                    threads={threads}
+                                    modelSettings={modelSettings}
+                                    activeThread={activeThread}
+                                    onQuery={handleQuery}
+                                    onStopQuery={handleStopQuery}
+                                    onShowDocument={handleShowDocument}
+                                    onPreviewDocument={handlePreviewDocument}
+                                    onSaveSettings={handleSaveSettings}
+                                    onSelectThread={handleSelectThread}
+                                    onClearThread={handleClearThread}
+                                    onBranchThread={handleBranchThread}
+                                    importedSession={importedSession}
+                                    onExportSession={handleExportSession}
+                                    onImportSession={handleImportSession}
+                                    onCloseImportedSession={() => setImportedSession(null)}
+                                />
+                            )}
+                        </div>
+                        {selectedStore && isHistoryOpen && (
+                            <QueryHistoryPanel
+                                entries={history}
+                                stores={stores}
+                                selectedEntryId={historyDetail?.entry.id}
+                                isBusy={historyDetail?.isRerunning ?? false}
+                                onView={handleViewHistoryEntry}
+                                onRerun={handleRerunHistoryEntry}
+                                onTogglePin={handleToggleHistoryPin}
+                                onDelete={handleDeleteHistoryEntry}
+                                onClear={handleClearHistory}
+                                onClose={() => setIsHistoryOpen(false)}
+                            />
+                        )}
+                    </div>
                 </div>
             </div>
         );
@@ -204,6 +941,50 @@ const App: React.FC = () => {
     return (
         <main className="h-screen bg-gem-onyx text-gem-offwhite font-sans">
             {renderContent()}
+            <UsageDashboard
+                isOpen={isUsageOpen}
+                records={telemetry}
+                sessionStartedAt={sessionStartedAt}
+                onReset={handleResetUsage}
+                onClose={() => setIsUsageOpen(false)}
+            />
+            <QueryHistoryDetail
+                entry={historyDetail?.entry ?? null}
+                rerun={historyDetail?.rerun}
+                isRerunning={historyDetail?.isRerunning ?? false}
+                rerunError={historyDetail?.error}
+                canRerun={historyDetail ? canRerun(historyDetail.entry, stores) : false}
+                documents={documents}
+                storeDisplayName={storeDisplayName}
+                onRerun={() => historyDetail && handleRerunHistoryEntry(historyDetail.entry)}
+                onShowDocument={handleShowDocument}
+                onClose={handleCloseHistoryDetail}
+            />
+            <DocumentPreviewModal
+                document={preview?.document ?? null}
+                chunks={preview?.chunks ?? []}
+                initialChunkIndex={preview?.focusIndex ?? 0}
+                loadFile={loadPreviewFile}
+                onClose={() => setPreview(null)}
+            />
+            <DuplicateUploadModal
+                duplicates={pendingUpload?.duplicates ?? []}
+                fileCount={pendingUpload?.files.length ?? 0}
+                onConfirm={handleConfirmDuplicates}
+                onClose={() => setPendingUpload(null)}
+            />
+            {transferDialog && (
+                <StoreTransferModal
+                    isOpen
+                    mode={transferDialog.mode}
+                    sourceStore={transferDialog.sourceStore}
+                    stores={stores}
+                    documentCount={transferDialog.mode === 'clone' ? storeDocumentCount(transferDialog.sourceStore) : transferDialog.docNames.length}
+                    searchesFilesApi={backendId === 'gemini'}
+                    onConfirm={handleConfirmTransfer}
+                    onClose={() => setTransferDialog(null)}
+                />
+            )}
         </main>
     );
 };
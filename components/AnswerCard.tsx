@@ -0,0 +1,162 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useRef } from 'react';
+import { ChatMessage, Document } from '../types';
+import { findSourceDocument } from '../services/sourceDocuments';
+import { formatMetadataValue } from '../services/metadataFilter';
+import Spinner from './Spinner';
+import CitedAnswer from './CitedAnswer';
+import QueryStats from './QueryStats';
+
+interface AnswerCardProps {
+    message: ChatMessage;
+    isStreaming: boolean;
+    isBusy: boolean;
+    documents: Document[];
+    storeDisplayName: (storeName?: string) => string | undefined;
+    onShowDocument: (docName: string) => void;
+    // Opens the document with the given chunk texts highlighted, scrolled to `focusIndex`.
+    onPreviewDocument?: (document: Document, chunks: string[], focusIndex: number) => void;
+    onBranch?: () => void;
+}
+
+const AnswerCard: React.FC<AnswerCardProps> = ({ message, isStreaming, isBusy, documents, storeDisplayName, onShowDocument, onPreviewDocument, onBranch }) => {
+    const [highlightedChunkIndex, setHighlightedChunkIndex] = useState<number | null>(null);
+    const [openChunkIndices, setOpenChunkIndices] = useState<Set<number>>(new Set());
+    const sourceRefs = useRef<Record<number, HTMLDetailsElement | null>>({});
+    const groundingChunks = message.groundingChunks || [];
+
+    const setChunkOpen = (chunkIndex: number, open: boolean) => {
+        setOpenChunkIndices(prev => {
+            if (prev.has(chunkIndex) === open) return prev;
+            const next = new Set(prev);
+            if (open) next.add(chunkIndex); else next.delete(chunkIndex);
+            return next;
+        });
+    };
+
+    const handleCitationClick = (chunkIndex: number) => {
+        setHighlightedChunkIndex(chunkIndex);
+        setChunkOpen(chunkIndex, true);
+        // Wait for the source to open so the scroll lands on its full height.
+        requestAnimationFrame(() => {
+            sourceRefs.current[chunkIndex]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+        });
+    };
+
+    // Highlights every chunk retrieved from the same document, not just the one clicked.
+    const handlePreview = (document: Document, chunkIndex: number) => {
+        const sameDocument = groundingChunks
+            .map((chunk, index) => ({ chunk, index }))
+            .filter(({ chunk }) => chunk.retrievedContext?.text && findSourceDocument(chunk, documents)?.name === document.name);
+        onPreviewDocument?.(
+            document,
+            sameDocument.map(({ chunk }) => chunk.retrievedContext!.text!),
+            sameDocument.findIndex(({ index }) => index === chunkIndex),
+        );
+    };
+
+    return (
+        <div>
+            <div className="bg-gem-mist p-4 rounded-lg">
+                <div className="flex justify-between items-center mb-2">
+                    <h3 className="font-semibold text-gem-teal flex items-center">
+                        Answer
+                        {isStreaming && <span className="ml-2"><Spinner /></span>}
+                        {message.aborted && <span className="ml-2 text-xs font-normal text-gem-offwhite/60">(stopped)</span>}
+                        {(message.answeredBy || message.settings) && (
+                            <span className="ml-2 text-xs font-normal text-gem-offwhite/60">{message.answeredBy ?? message.settings.model}</span>
+                        )}
+                    </h3>
+                    {onBranch && (
+                        <button
+                            onClick={onBranch}
+                            disabled={isBusy}
+                            className="text-xs text-gem-offwhite/70 hover:text-gem-offwhite disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Start a new thread from this point in the conversation"
+                        >
+                            Branch from here
+                        </button>
+                    )}
+                </div>
+                <CitedAnswer
+                    text={message.parts.map(p => p.text).join('')}
+                    supports={message.groundingSupports || []}
+                    highlightedChunkIndex={highlightedChunkIndex}
+                    onCitationClick={handleCitationClick}
+                />
+                {!isStreaming && (message.usage || message.latencyMs !== undefined) && (
+                    <div className="mt-3">
+                        <QueryStats usage={message.usage} latencyMs={message.latencyMs} model={message.answeredBy ? undefined : message.settings?.model} />
+                    </div>
+                )}
+            </div>
+            {groundingChunks.length > 0 && (
+                 <div className="mt-4">
+                    <h3 className="font-semibold text-gem-teal mb-2">Sources</h3>
+                    <div className="space-y-2">
+                    {groundingChunks.map((chunk, chunkIndex) => {
+                        if (!chunk.retrievedContext?.text) return null;
+                        const sourceDocument = findSourceDocument(chunk, documents);
+                        const sourceTitle = sourceDocument?.displayName || chunk.retrievedContext.title;
+                        const sourceMetadata = (sourceDocument?.customMetadata || chunk.retrievedContext.customMetadata || []).filter(meta => meta.key);
+                        return (
+                            <details
+                                key={chunkIndex}
+                                ref={el => { sourceRefs.current[chunkIndex] = el; }}
+                                open={openChunkIndices.has(chunkIndex)}
+                                onToggle={(e) => setChunkOpen(chunkIndex, e.currentTarget.open)}
+                                className={`p-3 rounded-lg text-sm transition-colors ${
+                                    highlightedChunkIndex === chunkIndex ? 'bg-gem-teal/30 ring-2 ring-gem-teal' : 'bg-gem-mist/50'
+                                }`}
+                            >
+                                <summary className="cursor-pointer font-medium">
+                                    Source Chunk {chunkIndex + 1}
+                                    {sourceTitle && <span className="ml-2 font-normal text-gem-offwhite/80">{sourceTitle}</span>}
+                                    {chunk.retrievedContext.fileSearchStore && (
+                                        <span className="ml-2 text-xs font-normal bg-gem-slate px-2 py-0.5 rounded" title={chunk.retrievedContext.fileSearchStore}>
+                                            {storeDisplayName(chunk.retrievedContext.fileSearchStore)}
+                                        </span>
+                                    )}
+                                </summary>
+                                {(sourceMetadata.length > 0 || sourceDocument) && (
+                                    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                                        {sourceMetadata.map((meta, metaIndex) => (
+                                            <span key={metaIndex} className="bg-gem-slate px-2 py-0.5 rounded" title={`${meta.key}: ${formatMetadataValue(meta)}`}>
+                                                <span className="text-gem-offwhite/60">{meta.key}:</span> {formatMetadataValue(meta)}
+                                            </span>
+                                        ))}
+                                        {sourceDocument && (
+                                            <button
+                                                onClick={() => onShowDocument(sourceDocument.name)}
+                                                className="text-gem-blue hover:text-blue-400 underline"
+                                                title={`Show ${sourceDocument.displayName} in the document list`}
+                                            >
+                                                Show document
+                                            </button>
+                                        )}
+                                        {sourceDocument && onPreviewDocument && (
+                                            <button
+                                                onClick={() => handlePreview(sourceDocument, chunkIndex)}
+                                                className="text-gem-blue hover:text-blue-400 underline"
+                                                title={`Open ${sourceDocument.displayName} with this chunk highlighted`}
+                                            >
+                                                Preview
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+                                <p className="mt-2 text-gem-offwhite/80">{chunk.retrievedContext.text}</p>
+                            </details>
+                        );
+                    })}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AnswerCard;
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { BulkItemStatus, BulkOperation } from '../types';
+import { isBulkItemFinished } from '../services/bulkOperations';
+import ProgressBar from './ProgressBar';
+
+interface BulkOperationPanelProps {
+    operation: BulkOperation | null;
+    onCancel: () => void;
+    onDismiss: () => void;
+}
+
+const STATUS_STYLES: Record<BulkItemStatus, string> = {
+    queued: 'bg-gem-slate text-gem-offwhite/70',
+    running: 'bg-gem-blue text-white',
+    done: 'bg-green-700 text-white',
+    failed: 'bg-red-700 text-white',
+    skipped: 'bg-yellow-700 text-white',
+    cancelled: 'bg-gem-slate text-gem-offwhite/50',
+};
+
+const BulkOperationPanel: React.FC<BulkOperationPanelProps> = ({ operation, onCancel, onDismiss }) => {
+    if (!operation) return null;
+
+    const { items } = operation;
+    const finishedCount = items.filter(isBulkItemFinished).length;
+    const countOf = (status: BulkItemStatus) => items.filter(item => item.status === status).length;
+    const problems = (['failed', 'skipped', 'cancelled'] as BulkItemStatus[])
+        .filter(status => countOf(status) > 0)
+        .map(status => `${countOf(status)} ${status}`);
+    const message = operation.isRunning
+        ? operation.label
+        : `${operation.label}: ${countOf('done')} done${problems.length > 0 ? `, ${problems.join(', ')}` : ''}`;
+
+    return (
+        <div className="mb-4 p-3 bg-gem-mist/40 rounded-md">
+            <ProgressBar
+                progress={finishedCount}
+                total={items.length}
+                message={message}
+                fileName={items.filter(item => item.status === 'running').map(item => item.displayName).join(', ')}
+            />
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto text-sm pr-1">
+                {items.map(item => (
+                    <li key={item.docName} className="flex items-center justify-between gap-2">
+                        <span className="truncate flex-1" title={item.error ? `${item.displayName}: ${item.error}` : item.displayName}>
+                            {item.displayName}
+                        </span>
+                        <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${STATUS_STYLES[item.status]}`} title={item.error}>
+                            {item.status}
+                        </span>
+                    </li>
+                ))}
+            </ul>
+            {operation.isRunning ? (
+                <button onClick={onCancel} className="mt-2 text-xs text-red-400 hover:text-red-300" title="Stop before the remaining documents. Ones already in progress still finish.">
+                    Cancel remaining
+                </button>
+            ) : (
+                <button onClick={onDismiss} className="mt-2 text-xs text-gem-offwhite/70 hover:text-gem-offwhite" title="Hide these results">
+                    Dismiss
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default BulkOperationPanel;
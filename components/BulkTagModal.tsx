@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { CustomMetadata, Document, MetadataFieldSchema } from '../types';
+import { MetadataDraft } from '../services/documentUpdate';
+import { applySchemaToDrafts, validateMetadata } from '../services/metadataSchema';
+import MetadataFieldsEditor from './MetadataFieldsEditor';
+import TagInput from './TagInput';
+
+interface BulkTagModalProps {
+    isOpen: boolean;
+    documents: Document[];
+    schema: MetadataFieldSchema[];
+    // When false, documents are re-uploaded from files matched by name.
+    canEditInPlace: boolean;
+    // Documents with a cached original, which need no chosen file.
+    cachedDocNames: string[];
+    backendLabel: string;
+    onApply: (entries: CustomMetadata[], removeKeys: string[], files: File[]) => void;
+    onClose: () => void;
+}
+
+const BulkTagModal: React.FC<BulkTagModalProps> = ({ isOpen, documents, schema, canEditInPlace, cachedDocNames, backendLabel, onApply, onClose }) => {
+    // Tagging only touches the keys filled in, so nothing in the schema is required here.
+    const optionalSchema = schema.map(field => ({ ...field, required: false }));
+    const [drafts, setDrafts] = useState<MetadataDraft[]>([]);
+    const [removeKeys, setRemoveKeys] = useState<string[]>([]);
+    const [files, setFiles] = useState<File[]>([]);
+    const [errors, setErrors] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDrafts(applySchemaToDrafts(optionalSchema, []));
+        setRemoveKeys([]);
+        setFiles([]);
+        setErrors([]);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const fileNames = new Set(files.map(file => file.name));
+    const matchedCount = documents.filter(doc => fileNames.has(doc.displayName) || cachedDocNames.includes(doc.name)).length;
+
+    const handleApply = () => {
+        const { metadata, errors: draftErrors } = validateMetadata(optionalSchema, drafts);
+        const allErrors = metadata.length === 0 && removeKeys.length === 0 ? ['Set or remove at least one key.', ...draftErrors] : draftErrors;
+        setErrors(allErrors);
+        if (allErrors.length > 0) return;
+        onApply(metadata, removeKeys, files);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="bulk-tag-title">
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 id="bulk-tag-title" className="text-xl font-bold mb-1">Tag {documents.length} {documents.length === 1 ? 'Document' : 'Documents'}</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">Values set here replace the same keys on every selected document. Other keys are kept.</p>
+
+                <div className="mb-4">
+                    <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Set</h4>
+                    <MetadataFieldsEditor schema={optionalSchema} drafts={drafts} onChange={setDrafts} />
+                </div>
+
+                <div className="mb-4">
+                    <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Remove keys</h4>
+                    <TagInput values={removeKeys} onChange={setRemoveKeys} placeholder="Type a key and press Enter" />
+                </div>
+
+                {!canEditInPlace && (
+                    <div className="mb-4 text-sm space-y-2">
+                        <p>
+                            The {backendLabel} backend can't change indexed documents, so each one is uploaded again with the new
+                            metadata and the old copy is deleted. Copies kept from earlier uploads are used where available; for
+                            the rest, choose the original files. They are matched to documents by name, and documents without a
+                            file are skipped.
+                        </p>
+                        <input
+                            type="file"
+                            multiple
+                            onChange={(e) => setFiles(e.target.files ? Array.from<File>(e.target.files) : [])}
+                            className="block w-full text-sm text-gem-offwhite/80 file:mr-3 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-gem-blue file:text-white"
+                        />
+                        {(files.length > 0 || matchedCount > 0) && (
+                            <p className={`text-xs ${matchedCount < documents.length ? 'text-yellow-300' : 'text-gem-offwhite/60'}`}>
+                                {matchedCount} of {documents.length} documents have a cached copy or a matching file.
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {errors.length > 0 && (
+                    <ul className="mb-2 text-sm text-red-400 list-disc list-inside">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex justify-end space-x-2 mt-6">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Cancel">
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={handleApply}
+                        disabled={!canEditInPlace && matchedCount === 0}
+                        className={`px-4 py-2 rounded-md text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed ${canEditInPlace ? 'bg-gem-blue hover:bg-blue-500' : 'bg-red-600 hover:bg-red-500'}`}
+                        title={canEditInPlace ? 'Apply to the selected documents' : 'Re-upload the matched documents with the new metadata'}
+                    >
+                        {canEditInPlace ? 'Apply' : `Re-upload ${matchedCount}`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default BulkTagModal;
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ChunkDiff, RetrievedChunk } from '../services/compare';
+
+interface ChunkDiffViewProps {
+    diff: ChunkDiff;
+    // Names for the two answers, e.g. ['A', 'B'].
+    labels: [string, string];
+}
+
+const ChunkList: React.FC<{ title: string, chunks: RetrievedChunk[], className: string }> = ({ title, chunks, className }) => (
+    <div>
+        <h4 className={`text-xs font-semibold mb-1 ${className}`}>{title} ({chunks.length})</h4>
+        <div className="space-y-1">
+            {chunks.map(chunk => (
+                <details key={chunk.key} className="bg-gem-mist/40 rounded-md">
+                    <summary className="cursor-pointer p-2 text-xs truncate" title={chunk.title}>{chunk.title}</summary>
+                    <p className="px-3 pb-2 text-xs text-gem-offwhite/80 whitespace-pre-wrap">{chunk.text}</p>
+                </details>
+            ))}
+        </div>
+    </div>
+);
+
+const ChunkDiffView: React.FC<ChunkDiffViewProps> = ({ diff, labels }) => (
+    <section>
+        <h3 className="font-semibold text-gem-teal mb-2">Retrieved chunks</h3>
+        <div className="grid grid-cols-3 gap-4">
+            <ChunkList title={`Only ${labels[0]}`} chunks={diff.onlyA} className="text-red-300" />
+            <ChunkList title="Both" chunks={diff.shared} className="text-gem-offwhite/80" />
+            <ChunkList title={`Only ${labels[1]}`} chunks={diff.onlyB} className="text-green-300" />
+        </div>
+    </section>
+);
+
+export default ChunkDiffView;
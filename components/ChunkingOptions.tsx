@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { ChunkingConfig, ChunkingPreset } from '../types';
+import { describeChunkingConfig, isDefaultChunking, loadChunkingPresets, saveChunkingPresets } from '../services/chunkingPresets';
+
+interface ChunkingOptionsProps {
+    storeName: string;
+    value: ChunkingConfig;
+    onChange: (config: ChunkingConfig) => void;
+}
+
+const inputClassName = "w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const ChunkingOptions: React.FC<ChunkingOptionsProps> = ({ storeName, value, onChange }) => {
+    const [presets, setPresets] = useState<ChunkingPreset[]>([]);
+    const [presetName, setPresetName] = useState('');
+
+    useEffect(() => {
+        setPresets(loadChunkingPresets(storeName));
+    }, [storeName]);
+
+    const activePreset = presets.find(p =>
+        p.maxTokensPerChunk === value.maxTokensPerChunk && p.maxOverlapTokens === value.maxOverlapTokens);
+
+    const updatePresets = (next: ChunkingPreset[]) => {
+        setPresets(next);
+        saveChunkingPresets(storeName, next);
+    };
+
+    const handlePresetSelect = (name: string) => {
+        const preset = presets.find(p => p.name === name);
+        onChange(preset
+            ? { maxTokensPerChunk: preset.maxTokensPerChunk, maxOverlapTokens: preset.maxOverlapTokens }
+            : {});
+    };
+
+    const handleNumberChange = (field: keyof ChunkingConfig, text: string) => {
+        onChange({ ...value, [field]: text.trim() === '' ? undefined : Number(text) });
+    };
+
+    const handleSavePreset = () => {
+        const name = presetName.trim();
+        if (!name) return;
+        updatePresets([...presets.filter(p => p.name !== name), { name, ...value }]);
+        setPresetName('');
+    };
+
+    return (
+        <div>
+            <div className="flex items-center space-x-2 mb-2">
+                <label htmlFor="chunking-preset" className="sr-only">Chunking preset</label>
+                <select
+                    id="chunking-preset"
+                    value={activePreset?.name ?? ''}
+                    onChange={(e) => handlePresetSelect(e.target.value)}
+                    className={inputClassName}
+                >
+                    <option value="">{activePreset || isDefaultChunking(value) ? 'Service default' : 'Custom'}</option>
+                    {presets.map(p => <option key={p.name} value={p.name}>{p.name} ({describeChunkingConfig(p)})</option>)}
+                </select>
+                {activePreset && (
+                    <button
+                        type="button"
+                        onClick={() => updatePresets(presets.filter(p => p !== activePreset))}
+                        className="text-xs text-red-400 hover:text-red-300 shrink-0"
+                        title={`Delete the "${activePreset.name}" preset`}
+                    >
+                        Delete
+                    </button>
+                )}
+            </div>
+            <div className="grid grid-cols-2 gap-2 mb-2">
+                <div>
+                    <label htmlFor="chunking-max-tokens" className="block text-xs text-gem-offwhite/70 mb-1">Max tokens per chunk</label>
+                    <input
+                        id="chunking-max-tokens"
+                        type="number"
+                        min={1}
+                        value={value.maxTokensPerChunk ?? ''}
+                        onChange={(e) => handleNumberChange('maxTokensPerChunk', e.target.value)}
+                        placeholder="Default"
+                        className={inputClassName}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="chunking-overlap" className="block text-xs text-gem-offwhite/70 mb-1">Overlap tokens</label>
+                    <input
+                        id="chunking-overlap"
+                        type="number"
+                        min={0}
+                        value={value.maxOverlapTokens ?? ''}
+                        onChange={(e) => handleNumberChange('maxOverlapTokens', e.target.value)}
+                        placeholder="Default"
+                        className={inputClassName}
+                    />
+                </div>
+            </div>
+            {!activePreset && !isDefaultChunking(value) && (
+                <div className="flex items-center space-x-2">
+                    <input
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Preset name"
+                        className={inputClassName}
+                        aria-label="Preset name"
+                    />
+                    <button
+                        type="button"
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim()}
+                        className="text-sm text-gem-blue hover:text-blue-400 disabled:text-gem-offwhite/40 shrink-0"
+                        title="Save these values as a preset for this store"
+                    >
+                        Save preset
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ChunkingOptions;
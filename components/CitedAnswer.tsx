@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { GroundingSupport } from '../types';
+import { findCitations } from '../services/citations';
+
+interface CitedAnswerProps {
+    text: string;
+    supports: GroundingSupport[];
+    highlightedChunkIndex: number | null;
+    onCitationClick: (chunkIndex: number) => void;
+}
+
+const CitedAnswer: React.FC<CitedAnswerProps> = ({ text, supports, highlightedChunkIndex, onCitationClick }) => {
+    const citations = useMemo(() => findCitations(text, supports), [text, supports]);
+
+    const content: React.ReactNode[] = [];
+    let cursor = 0;
+    citations.forEach((citation, i) => {
+        content.push(text.slice(cursor, citation.position));
+        content.push(
+            <sup key={`citation-${i}`} className="ml-0.5">
+                {citation.chunkIndices.map(chunkIndex => (
+                    <button
+                        key={chunkIndex}
+                        onClick={() => onCitationClick(chunkIndex)}
+                        className={`mx-0.5 px-1 rounded text-xs font-semibold transition-colors ${
+                            highlightedChunkIndex === chunkIndex
+                                ? 'bg-gem-teal text-white'
+                                : 'bg-gem-slate text-gem-teal hover:bg-gem-teal hover:text-white'
+                        }`}
+                        title={`Show source chunk ${chunkIndex + 1}`}
+                    >
+                        {chunkIndex + 1}
+                    </button>
+                ))}
+            </sup>
+        );
+        cursor = citation.position;
+    });
+    content.push(text.slice(cursor));
+
+    return <p className="whitespace-pre-wrap">{content}</p>;
+};
+
+export default CitedAnswer;
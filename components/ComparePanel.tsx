@@ -0,0 +1,217 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { RagStore, Document, ModelSettings, QueryResult, CompareConfig, FileSearchOptions } from '../types';
+import { diffRetrievedChunks } from '../services/compare';
+import AnswerCard from './AnswerCard';
+import ChunkDiffView from './ChunkDiffView';
+import QueryStats from './QueryStats';
+import SettingsPanel from './SettingsPanel';
+import Spinner from './Spinner';
+import SendIcon from './icons/SendIcon';
+import SettingsIcon from './icons/SettingsIcon';
+
+interface ComparePanelProps {
+    selectedStore: RagStore;
+    stores: RagStore[];
+    searchStores: RagStore[];
+    documents: Document[];
+    modelSettings: ModelSettings;
+    onSearch: (config: CompareConfig, query: string, options: Pick<FileSearchOptions, 'abortSignal' | 'onText'>) => Promise<QueryResult>;
+    onShowDocument: (docName: string) => void;
+}
+
+interface SideState {
+    text: string;
+    result?: QueryResult;
+    error?: string;
+    isLoading: boolean;
+}
+
+const SIDE_LABELS = ['A', 'B'];
+
+const ComparePanel: React.FC<ComparePanelProps> = ({ selectedStore, stores, searchStores, documents, modelSettings, onSearch, onShowDocument }) => {
+    const initialConfig = (): CompareConfig => ({ storeNames: searchStores.map(s => s.name), settings: modelSettings });
+    const [configs, setConfigs] = useState<CompareConfig[]>(() => [initialConfig(), initialConfig()]);
+    const [sides, setSides] = useState<SideState[]>([]);
+    const [query, setQuery] = useState('');
+    const [lastQuery, setLastQuery] = useState('');
+    const [settingsSide, setSettingsSide] = useState<number | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const isLoading = sides.some(side => side.isLoading);
+
+    useEffect(() => {
+        setConfigs([initialConfig(), initialConfig()]);
+        setSides([]);
+    }, [selectedStore.name]);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const storeDisplayName = (storeName?: string) =>
+        stores.find(s => s.name === storeName)?.displayName || storeName?.split('/').pop();
+
+    const updateConfig = (index: number, changes: Partial<CompareConfig>) => {
+        setConfigs(prev => prev.map((config, i) => i === index ? { ...config, ...changes } : config));
+    };
+
+    const updateSide = (index: number, changes: Partial<SideState>) => {
+        setSides(prev => prev.map((side, i) => i === index ? { ...side, ...changes } : side));
+    };
+
+    const toggleStore = (index: number, storeName: string) => {
+        const storeNames = configs[index].storeNames;
+        updateConfig(index, {
+            storeNames: storeNames.includes(storeName) ? storeNames.filter(name => name !== storeName) : [...storeNames, storeName],
+        });
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = query.trim();
+        if (!text || configs.some(config => config.storeNames.length === 0)) return;
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        setLastQuery(text);
+        setSides(configs.map(() => ({ text: '', isLoading: true })));
+        // Both sides run at the same time so neither gets a warmer cache or a quieter network.
+        await Promise.all(configs.map(async (config, index) => {
+            try {
+                const result = await onSearch(config, text, {
+                    abortSignal: abortController.signal,
+                    onText: partial => updateSide(index, { text: partial }),
+                });
+                updateSide(index, { text: result.text, result, isLoading: false });
+            } catch (err) {
+                updateSide(index, { error: err instanceof Error ? err.message : String(err), isLoading: false });
+            }
+        }));
+        abortControllerRef.current = null;
+    };
+
+    const [resultA, resultB] = sides.map(side => side.result);
+    const diff = resultA && resultB ? diffRetrievedChunks(resultA.groundingChunks, resultB.groundingChunks) : null;
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex justify-between items-center mb-4 gap-2">
+                <h2 className="text-xl font-bold truncate">Compare</h2>
+                <span className="text-sm text-gem-offwhite/70 shrink-0">Same query, two configurations</span>
+            </div>
+
+            <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+                <div className="grid grid-cols-2 gap-4">
+                    {configs.map((config, index) => (
+                        <div key={index} className="p-3 bg-gem-slate/50 border border-gem-mist/50 rounded-lg">
+                            <div className="flex justify-between items-center mb-2">
+                                <h3 className="font-semibold text-gem-teal">{SIDE_LABELS[index]}</h3>
+                                <button
+                                    onClick={() => setSettingsSide(index)}
+                                    disabled={isLoading}
+                                    className="flex items-center space-x-1 text-sm text-gem-offwhite/80 hover:text-gem-offwhite disabled:opacity-50"
+                                    title={`Model settings for ${SIDE_LABELS[index]}`}
+                                >
+                                    <span className="truncate max-w-40">{config.settings.model}</span>
+                                    <SettingsIcon />
+                                </button>
+                            </div>
+                            <ul className="space-y-1 max-h-32 overflow-y-auto text-sm">
+                                {stores.map(store => (
+                                    <li key={store.name}>
+                                        <label className="flex items-center space-x-2 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={config.storeNames.includes(store.name)}
+                                                onChange={() => toggleStore(index, store.name)}
+                                                disabled={isLoading}
+                                                className="h-4 w-4 accent-gem-blue"
+                                            />
+                                            <span className="truncate" title={store.name}>{store.displayName}</span>
+                                        </label>
+                                    </li>
+                                ))}
+                            </ul>
+                            {config.storeNames.length === 0 && <p className="text-xs text-red-400 mt-1">Pick at least one store.</p>}
+                        </div>
+                    ))}
+                </div>
+
+                <SettingsPanel
+                    isOpen={settingsSide !== null}
+                    store={selectedStore}
+                    settings={configs[settingsSide ?? 0].settings}
+                    description={`Used for side ${SIDE_LABELS[settingsSide ?? 0]} of this comparison only. Not saved.`}
+                    onSave={settings => updateConfig(settingsSide, { settings })}
+                    onClose={() => setSettingsSide(null)}
+                />
+
+                {sides.length > 0 && (
+                    <>
+                        <p className="text-sm text-gem-offwhite/70 truncate" title={lastQuery}>Query: {lastQuery}</p>
+                        <div className="grid grid-cols-2 gap-4">
+                            {sides.map((side, index) => (
+                                <div key={index} className="min-w-0">
+                                    <div className="flex justify-between items-center mb-2">
+                                        <h3 className="font-semibold text-gem-teal">{SIDE_LABELS[index]}</h3>
+                                        <QueryStats usage={side.result?.usage} latencyMs={side.result?.latencyMs} model={configs[index].settings.model} />
+                                    </div>
+                                    {side.error ? (
+                                        <p className="p-3 rounded-md bg-red-900/30 text-red-300 text-sm">{side.error}</p>
+                                    ) : side.isLoading && !side.text ? (
+                                        <div className="flex items-center justify-center p-4"><Spinner /></div>
+                                    ) : (
+                                        <AnswerCard
+                                            message={{
+                                                role: 'model',
+                                                parts: [{ text: side.text }],
+                                                groundingChunks: side.result?.groundingChunks,
+                                                groundingSupports: side.result?.groundingSupports,
+                                                aborted: side.result?.aborted,
+                                                settings: configs[index].settings,
+                                            }}
+                                            isStreaming={side.isLoading}
+                                            isBusy={isLoading}
+                                            documents={documents}
+                                            storeDisplayName={storeDisplayName}
+                                            onShowDocument={onShowDocument}
+                                        />
+                                    )}
+                                </div>
+                            ))}
+                        </div>
+                    </>
+                )}
+
+                {diff && <ChunkDiffView diff={diff} labels={['A', 'B']} />}
+            </div>
+
+            <form onSubmit={handleSubmit} className="flex items-center space-x-2 mt-4">
+                <input
+                    type="text"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    placeholder="Ask both configurations the same question..."
+                    className="flex-grow bg-gem-mist border border-gem-mist/50 rounded-full py-2 px-4 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                    disabled={isLoading}
+                />
+                {isLoading ? (
+                    <button type="button" onClick={() => abortControllerRef.current?.abort()} className="px-4 py-2 bg-red-600 hover:bg-red-500 rounded-full text-white transition-colors" title="Stop both queries">
+                        Stop
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        disabled={!query.trim() || configs.some(config => config.storeNames.length === 0)}
+                        className="p-3 bg-gem-blue rounded-full text-white disabled:bg-gem-mist transition-colors"
+                        title="Run the query with both configurations"
+                    >
+                        <SendIcon />
+                    </button>
+                )}
+            </form>
+        </div>
+    );
+};
+
+export default ComparePanel;
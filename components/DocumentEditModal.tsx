@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Document, DocumentUpdate, MetadataFieldSchema } from '../types';
+import { MetadataDraft, toMetadataDrafts } from '../services/documentUpdate';
+import { applySchemaToDrafts, validateMetadata } from '../services/metadataSchema';
+import MetadataFieldsEditor from './MetadataFieldsEditor';
+
+interface DocumentEditModalProps {
+    document: Document | null;
+    schema: MetadataFieldSchema[];
+    // When false, saving re-uploads the document from a file the user picks.
+    canEditInPlace: boolean;
+    // A copy of the original file is cached, so re-uploading needs no file.
+    hasCachedFile: boolean;
+    backendLabel: string;
+    onSave: (update: DocumentUpdate, file?: File) => void;
+    onClose: () => void;
+}
+
+const inputClassName = 'bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue';
+
+const DocumentEditModal: React.FC<DocumentEditModalProps> = ({ document, schema, canEditInPlace, hasCachedFile, backendLabel, onSave, onClose }) => {
+    const [displayName, setDisplayName] = useState('');
+    const [drafts, setDrafts] = useState<MetadataDraft[]>([]);
+    const [errors, setErrors] = useState<string[]>([]);
+    // Re-uploading replaces the document, so it gets its own confirmation step.
+    const [isConfirming, setIsConfirming] = useState(false);
+    const [file, setFile] = useState<File | null>(null);
+
+    useEffect(() => {
+        if (!document) return;
+        setDisplayName(document.displayName);
+        setDrafts(applySchemaToDrafts(schema, toMetadataDrafts(document.customMetadata)));
+        setErrors([]);
+        setIsConfirming(false);
+        setFile(null);
+    }, [document]);
+
+    if (!document) return null;
+
+    const buildUpdate = (): DocumentUpdate | null => {
+        const { metadata, errors: draftErrors } = validateMetadata(schema, drafts);
+        const allErrors = displayName.trim() ? draftErrors : ['The display name is required.', ...draftErrors];
+        setErrors(allErrors);
+        return allErrors.length > 0 ? null : { displayName: displayName.trim(), customMetadata: metadata };
+    };
+
+    const handleSave = () => {
+        const update = buildUpdate();
+        if (!update) return;
+        if (!canEditInPlace) {
+            setIsConfirming(true);
+            return;
+        }
+        onSave(update);
+    };
+
+    const handleConfirmReupload = () => {
+        const update = buildUpdate();
+        if (update && (file || hasCachedFile)) onSave(update, file ?? undefined);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="edit-doc-title">
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 id="edit-doc-title" className="text-xl font-bold mb-4 truncate" title={document.displayName}>
+                    {isConfirming ? 'Re-upload Document' : 'Edit Document'}
+                </h3>
+
+                {isConfirming ? (
+                    <div className="space-y-3 text-sm">
+                        <p>
+                            The {backendLabel} backend can't change a document once it is indexed. To apply the changes,{' '}
+                            {hasCachedFile
+                                ? 'the copy of the original file kept from its upload'
+                                : <>choose the original file for <span className="font-semibold">{document.displayName}</span>. It</>}
+                            {' '}is uploaded again as <span className="font-semibold">{displayName.trim()}</span> with the new metadata
+                            and the same chunking, and the current document is deleted once the new one has been indexed.
+                        </p>
+                        <p className="text-gem-offwhite/70">
+                            The document gets a new ID, so citations in earlier answers will no longer link to it. If the page is
+                            closed before indexing finishes, both documents are kept.
+                        </p>
+                        {hasCachedFile && <p className="text-gem-offwhite/70">Choose a file only to upload different content.</p>}
+                        <input
+                            type="file"
+                            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                            className="block w-full text-sm text-gem-offwhite/80 file:mr-3 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-gem-blue file:text-white"
+                        />
+                        {file && file.name !== document.displayName && (
+                            <p className="text-xs text-yellow-300">
+                                The file name differs from the document's current name. Make sure it is the same content.
+                            </p>
+                        )}
+                    </div>
+                ) : (
+                    <>
+                        <div className="mb-4">
+                            <label htmlFor="edit-doc-name" className="block text-sm font-medium text-gem-offwhite/80 mb-2">Display name</label>
+                            <input id="edit-doc-name" type="text" value={displayName} onChange={(e) => setDisplayName(e.target.value)} className={`w-full ${inputClassName}`} />
+                        </div>
+
+                        <div className="mb-4">
+                            <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Custom Metadata</h4>
+                            <MetadataFieldsEditor schema={schema} drafts={drafts} onChange={setDrafts} />
+                        </div>
+
+                        {!canEditInPlace && (
+                            <p className="text-xs text-gem-offwhite/60">
+                                Documents in {backendLabel} can't be edited in place. Saving uploads the original file again.
+                            </p>
+                        )}
+                    </>
+                )}
+
+                {errors.length > 0 && (
+                    <ul className="mt-3 text-sm text-red-400 list-disc list-inside">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex justify-end space-x-2 mt-6">
+                    <button
+                        type="button"
+                        onClick={isConfirming ? () => setIsConfirming(false) : onClose}
+                        className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors"
+                        title={isConfirming ? 'Back to the changes' : 'Discard the changes'}
+                    >
+                        {isConfirming ? 'Back' : 'Cancel'}
+                    </button>
+                    {isConfirming ? (
+                        <button type="button" onClick={handleConfirmReupload} disabled={!file && !hasCachedFile} className="px-4 py-2 rounded-md bg-red-600 hover:bg-red-500 text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed" title="Upload the file again and delete the current document">
+                            Re-upload and Replace
+                        </button>
+                    ) : (
+                        <button type="button" onClick={handleSave} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Save the changes">
+                            {canEditInPlace ? 'Save' : 'Continue'}
+                        </button>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DocumentEditModal;
@@ -2,74 +2,232 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import React, { useState, useRef } from 'react';
-import { RagStore, Document, CustomMetadata } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { RagStore, Document, DocumentUpdate, CustomMetadata, UploadQueueItem, ChunkingConfig, MetadataFieldSchema, BulkOperation } from '../types';
+import { formatMetadataValue } from '../services/metadataFilter';
+import { formatBytes, formatDateTime } from '../services/formatting';
+import { collectDroppedFiles } from '../services/droppedFiles';
+import { MetadataDraft } from '../services/documentUpdate';
+import { DOCUMENT_SORTS, DocumentSort, FacetSelection, collectFacets, queryDocuments } from '../services/documentQuery';
+import { applySchemaToDrafts, loadMetadataSchema, saveMetadataSchema, validateMetadata } from '../services/metadataSchema';
 import Spinner from './Spinner';
+import UploadQueuePanel from './UploadQueuePanel';
+import BulkOperationPanel from './BulkOperationPanel';
+import BulkTagModal from './BulkTagModal';
+import ChunkingOptions from './ChunkingOptions';
+import DocumentEditModal from './DocumentEditModal';
+import DocumentStateBadge from './DocumentStateBadge';
+import MetadataFieldsEditor from './MetadataFieldsEditor';
+import MetadataSchemaEditor from './MetadataSchemaEditor';
 import UploadIcon from './icons/UploadIcon';
 import TrashIcon from './icons/TrashIcon';
-import PlusIcon from './icons/PlusIcon';
 
 interface DocumentListProps {
     selectedStore: RagStore | null;
     documents: Document[];
     isLoading: boolean;
     processingFile: string | null;
-    onUpload: (file: File, metadata: CustomMetadata[]) => void;
+    focusedDocument: { name: string } | null;
+    uploadItems: UploadQueueItem[];
+    onUpload: (files: File[], metadata: CustomMetadata[], chunkingConfig: ChunkingConfig) => void;
+    onRetryUpload: (id: string) => void;
+    onCancelUpload: (id: string) => void;
+    onClearFinishedUploads: () => void;
     onDelete: (docName: string) => void;
+    hasMoreDocuments: boolean;
+    isLoadingMore: boolean;
+    // Loads the next page, or every remaining page with `all`.
+    onLoadMore: (all?: boolean) => void;
+    canEditInPlace: boolean;
+    backendLabel: string;
+    onUpdate: (docName: string, update: DocumentUpdate, file?: File) => void;
+    // Documents whose original file is cached in this browser.
+    cachedDocNames: string[];
+    bulkOperation: BulkOperation | null;
+    // False when the user cancels the confirmation, so the selection is kept.
+    onBulkDelete: (docNames: string[]) => boolean;
+    // False when the tagging couldn't start, so the selection is kept.
+    onBulkTag: (docNames: string[], entries: CustomMetadata[], removeKeys: string[], files: File[]) => boolean;
+    onExportManifest: (docNames: string[]) => void;
+    onMove: (docNames: string[]) => void;
+    // False while a clone or move is running.
+    canMove: boolean;
+    onCancelBulk: () => void;
+    onDismissBulk: () => void;
 }
 
-const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, isLoading, processingFile, onUpload, onDelete }) => {
+const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, isLoading, processingFile, focusedDocument, uploadItems, onUpload, onRetryUpload, onCancelUpload, onClearFinishedUploads, onDelete, hasMoreDocuments, isLoadingMore, onLoadMore, canEditInPlace, backendLabel, onUpdate, cachedDocNames, bulkOperation, onBulkDelete, onBulkTag, onExportManifest, onMove, canMove, onCancelBulk, onDismissBulk }) => {
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
     const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-    const [selectedFile, setSelectedFile] = useState<File | null>(null);
-    const [metadata, setMetadata] = useState<{ key: string, value: string }[]>([{ key: '', value: '' }]);
+    const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+    const [isDragging, setIsDragging] = useState(false);
+    // Kept between uploads so a batch can be split without re-entering the settings.
+    const [chunkingConfig, setChunkingConfig] = useState<ChunkingConfig>({});
+    const [schema, setSchema] = useState<MetadataFieldSchema[]>([]);
+    const [isSchemaOpen, setIsSchemaOpen] = useState(false);
+    const [metadataDrafts, setMetadataDrafts] = useState<MetadataDraft[]>([]);
+    const [metadataErrors, setMetadataErrors] = useState<string[]>([]);
     const [expandedDocName, setExpandedDocName] = useState<string | null>(null);
+    const [editingDoc, setEditingDoc] = useState<Document | null>(null);
+    const [highlightedDocName, setHighlightedDocName] = useState<string | null>(null);
+    const docRefs = useRef<Record<string, HTMLLIElement | null>>({});
+    const [search, setSearch] = useState('');
+    const [sort, setSort] = useState<DocumentSort>('listed');
+    const [facetSelection, setFacetSelection] = useState<FacetSelection>({});
+    const [isFilterOpen, setIsFilterOpen] = useState(false);
+    const [selectedDocNames, setSelectedDocNames] = useState<string[]>([]);
+    const [isBulkTagOpen, setIsBulkTagOpen] = useState(false);
+    const loadMoreSentinelRef = useRef<HTMLDivElement>(null);
+    const onLoadMoreRef = useRef(onLoadMore);
+    onLoadMoreRef.current = onLoadMore;
+
+    useEffect(() => {
+        if (!focusedDocument) return;
+        setExpandedDocName(focusedDocument.name);
+        setHighlightedDocName(focusedDocument.name);
+        docRefs.current[focusedDocument.name]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const timeout = setTimeout(() => setHighlightedDocName(null), 2000);
+        return () => clearTimeout(timeout);
+    }, [focusedDocument]);
+
+    useEffect(() => {
+        setSchema(selectedStore ? loadMetadataSchema(selectedStore.name) : []);
+        setSearch('');
+        setFacetSelection({});
+        setSelectedDocNames([]);
+    }, [selectedStore?.name]);
+
+    // Loads the next page whenever the end of the list scrolls into view. The
+    // observer is recreated after each load, so it keeps going while the end
+    // stays visible, e.g. when a filter matches few of the loaded documents.
+    useEffect(() => {
+        const sentinel = loadMoreSentinelRef.current;
+        if (!sentinel || !hasMoreDocuments || isLoadingMore) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) onLoadMoreRef.current();
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [hasMoreDocuments, isLoadingMore, documents]);
+
+    // `webkitdirectory` isn't a known JSX attribute, so it is set on the element directly.
+    useEffect(() => {
+        if (folderInputRef.current) folderInputRef.current.webkitdirectory = true;
+    }, [isUploadModalOpen]);
 
     const handleToggleExpand = (docName: string) => {
         setExpandedDocName(prev => (prev === docName ? null : docName));
     };
 
-    const handleUploadClick = () => {
+    const openUploadModal = () => {
+        if (!isUploadModalOpen) setMetadataDrafts(applySchemaToDrafts(schema, []));
         setIsUploadModalOpen(true);
     };
 
     const handleModalClose = () => {
         setIsUploadModalOpen(false);
-        setSelectedFile(null);
-        setMetadata([{ key: '', value: '' }]);
+        setSelectedFiles([]);
+        setMetadataDrafts([]);
+        setMetadataErrors([]);
+    };
+
+    const addFiles = (files: File[]) => {
+        if (files.length === 0) return;
+        setSelectedFiles(prev => [...prev, ...files]);
     };
 
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
-        if (file) {
-            setSelectedFile(file);
-        }
+        const files: File[] = event.target.files ? Array.from<File>(event.target.files) : [];
+        addFiles(files.filter(file => !file.name.startsWith('.')));
+        event.target.value = '';
     };
 
-    const handleMetadataChange = (index: number, field: 'key' | 'value', text: string) => {
-        const newMetadata = [...metadata];
-        newMetadata[index][field] = text;
-        setMetadata(newMetadata);
+    const handleDragOver = (event: React.DragEvent) => {
+        if (!event.dataTransfer.types.includes('Files')) return;
+        event.preventDefault();
+        setIsDragging(true);
     };
 
-    const addMetadataRow = () => {
-        setMetadata([...metadata, { key: '', value: '' }]);
+    const handleDragLeave = (event: React.DragEvent) => {
+        if (event.currentTarget.contains(event.relatedTarget as Node)) return;
+        setIsDragging(false);
     };
 
-    const removeMetadataRow = (index: number) => {
-        const newMetadata = metadata.filter((_, i) => i !== index);
-        setMetadata(newMetadata);
+    // Files can be dropped on the modal or straight onto the document list,
+    // which opens the modal so metadata can still be added.
+    const handleDrop = async (event: React.DragEvent) => {
+        event.preventDefault();
+        event.stopPropagation();
+        setIsDragging(false);
+        const files = await collectDroppedFiles(event.dataTransfer);
+        addFiles(files);
+        openUploadModal();
     };
 
     const handleConfirmUpload = () => {
-        if (!selectedFile) return;
-        const formattedMetadata: CustomMetadata[] = metadata
-            .filter(m => m.key.trim() !== '')
-            .map(m => ({ key: m.key.trim(), stringValue: m.value.trim() }));
-        onUpload(selectedFile, formattedMetadata);
+        if (selectedFiles.length === 0) return;
+        const { metadata, errors } = validateMetadata(schema, metadataDrafts);
+        setMetadataErrors(errors);
+        if (errors.length > 0) return;
+        onUpload(selectedFiles, metadata, chunkingConfig);
         handleModalClose();
     };
 
+    const handleSaveSchema = (next: MetadataFieldSchema[]) => {
+        if (!selectedStore) return;
+        saveMetadataSchema(selectedStore.name, next);
+        // Empty rows of fields that were dropped from the schema go with them.
+        setMetadataDrafts(prev => applySchemaToDrafts(next, prev.filter(draft => draft.value.trim() || !schema.some(field => field.key === draft.key))));
+        setSchema(next);
+    };
+
+    const handleSaveEdit = (update: DocumentUpdate, file?: File) => {
+        if (!editingDoc) return;
+        onUpdate(editingDoc.name, update, file);
+        setEditingDoc(null);
+    };
+
+    const facets = collectFacets(documents);
+    const visibleDocuments = queryDocuments(documents, { search, sort, facets: facetSelection });
+    const activeFacetCount = Object.values<string[]>(facetSelection).reduce((count, values) => count + values.length, 0);
+
+    // Selected documents that are still listed; deleted ones drop out on refresh.
+    const selectedDocs = documents.filter(doc => selectedDocNames.includes(doc.name));
+    const isBulkRunning = !!bulkOperation?.isRunning;
+    const allVisibleSelected = visibleDocuments.length > 0 && visibleDocuments.every(doc => selectedDocNames.includes(doc.name));
+
+    const toggleSelected = (docName: string) => {
+        setSelectedDocNames(prev => prev.includes(docName) ? prev.filter(name => name !== docName) : [...prev, docName]);
+    };
+
+    // Selects or clears every document matching the current search and filters.
+    const toggleSelectAllVisible = () => {
+        const visibleNames = visibleDocuments.map(doc => doc.name);
+        setSelectedDocNames(prev => allVisibleSelected
+            ? prev.filter(name => !visibleNames.includes(name))
+            : [...new Set([...prev, ...visibleNames])]);
+    };
+
+    const handleBulkDelete = () => {
+        if (onBulkDelete(selectedDocs.map(doc => doc.name))) {
+            setSelectedDocNames([]);
+        }
+    };
+
+    const handleBulkTag = (entries: CustomMetadata[], removeKeys: string[], files: File[]) => {
+        if (onBulkTag(selectedDocs.map(doc => doc.name), entries, removeKeys, files)) {
+            setSelectedDocNames([]);
+        }
+    };
+
+    const toggleFacetValue = (key: string, value: string) => {
+        setFacetSelection(prev => {
+            const selected = prev[key] || [];
+            return { ...prev, [key]: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value] };
+        });
+    };
+
     if (!selectedStore) {
         return (
             <div className="flex flex-col h-full items-center justify-center text-center text-gem-offwhite/60">
@@ -80,67 +238,148 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
     }
 
     return (
-        <div className="flex flex-col h-full">
+        <div
+            className={`flex flex-col h-full rounded-md ${isDragging && !isUploadModalOpen ? 'ring-2 ring-gem-blue' : ''}`}
+            onDragOver={handleDragOver}
+            onDragLeave={handleDragLeave}
+            onDrop={handleDrop}
+        >
             <div className="flex justify-between items-center mb-4">
                 <h2 className="text-xl font-bold truncate" title={selectedStore.displayName}>Documents</h2>
-                <button
-                    onClick={handleUploadClick}
-                    className="p-2 bg-gem-blue hover:bg-blue-500 rounded-full text-white transition-colors disabled:bg-gem-mist disabled:cursor-not-allowed"
-                    disabled={!!processingFile}
-                    aria-label="Upload document"
-                    title="Upload a new document to this store"
-                >
-                    <UploadIcon />
-                </button>
+                <div className="flex items-center space-x-2">
+                    <button
+                        onClick={() => setIsSchemaOpen(true)}
+                        className="px-3 py-1 rounded-md text-sm bg-gem-mist hover:bg-gem-mist/70 transition-colors"
+                        title="Define the metadata keys, types and values this store expects"
+                    >
+                        Schema
+                    </button>
+                    <button
+                        onClick={openUploadModal}
+                        className="p-2 bg-gem-blue hover:bg-blue-500 rounded-full text-white transition-colors disabled:bg-gem-mist disabled:cursor-not-allowed"
+                        disabled={!!processingFile}
+                        aria-label="Upload documents"
+                        title="Upload documents to this store, or drop files here"
+                    >
+                        <UploadIcon />
+                    </button>
+                </div>
             </div>
             
             {isUploadModalOpen && (
                 <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="upload-doc-title">
-                    <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg">
-                        <h3 id="upload-doc-title" className="text-xl font-bold mb-4">Upload Document</h3>
+                    <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                        <h3 id="upload-doc-title" className="text-xl font-bold mb-4">Upload Documents</h3>
                         
                         <div className="mb-4">
-                            <label htmlFor="file-upload" className="block text-sm font-medium text-gem-offwhite/80 mb-2">File</label>
-                            <input
-                                id="file-upload"
-                                type="file"
-                                ref={fileInputRef}
-                                onChange={handleFileChange}
-                                className="w-full text-sm text-gem-offwhite file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-gem-blue file:text-white hover:file:bg-blue-500"
-                            />
-                            {selectedFile && <p className="text-sm mt-2 text-gem-offwhite/70">Selected: {selectedFile.name}</p>}
+                            <h4 className="block text-sm font-medium text-gem-offwhite/80 mb-2">Files</h4>
+                            <div
+                                className={`p-4 border-2 border-dashed rounded-md text-center text-sm transition-colors ${isDragging ? 'border-gem-blue bg-gem-blue/10' : 'border-gem-mist'}`}
+                                onDragOver={handleDragOver}
+                                onDragLeave={handleDragLeave}
+                                onDrop={handleDrop}
+                            >
+                                <p className="text-gem-offwhite/70 mb-3">Drop files or folders here, or</p>
+                                <div className="flex justify-center space-x-2">
+                                    <button type="button" onClick={() => fileInputRef.current?.click()} className="px-3 py-1 rounded-full bg-gem-blue hover:bg-blue-500 text-white font-semibold" title="Choose one or more files">
+                                        Choose Files
+                                    </button>
+                                    <button type="button" onClick={() => folderInputRef.current?.click()} className="px-3 py-1 rounded-full bg-gem-blue hover:bg-blue-500 text-white font-semibold" title="Choose a folder; every file in it is uploaded">
+                                        Choose Folder
+                                    </button>
+                                </div>
+                                <input id="file-upload" type="file" multiple ref={fileInputRef} onChange={handleFileChange} className="hidden" />
+                                <input id="folder-upload" type="file" ref={folderInputRef} onChange={handleFileChange} className="hidden" />
+                            </div>
+                            {selectedFiles.length > 0 && (
+                                <div className="mt-2 text-sm text-gem-offwhite/70">
+                                    <div className="flex justify-between">
+                                        <span>{selectedFiles.length} {selectedFiles.length === 1 ? 'file' : 'files'} selected</span>
+                                        <button type="button" onClick={() => setSelectedFiles([])} className="text-xs text-red-400 hover:text-red-300" title="Clear the selected files">
+                                            Clear
+                                        </button>
+                                    </div>
+                                    <ul className="mt-1 max-h-24 overflow-y-auto text-xs">
+                                        {selectedFiles.map((file, index) => (
+                                            <li key={index} className="truncate" title={file.webkitRelativePath || file.name}>{file.webkitRelativePath || file.name}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                            <p className="mt-2 text-xs text-gem-offwhite/60">Metadata below is applied to every file.</p>
                         </div>
 
                         <div className="mb-4">
-                            <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Custom Metadata (optional)</h4>
-                            <div className="space-y-2 max-h-48 overflow-y-auto pr-2">
-                                {metadata.map((item, index) => (
-                                    <div key={index} className="flex items-center space-x-2">
-                                        <input type="text" placeholder="Key" value={item.key} onChange={(e) => handleMetadataChange(index, 'key', e.target.value)} className="w-1/2 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue" />
-                                        <input type="text" placeholder="Value" value={item.value} onChange={(e) => handleMetadataChange(index, 'value', e.target.value)} className="w-1/2 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue" />
-                                        <button onClick={() => removeMetadataRow(index)} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label="Remove metadata row" title="Remove metadata row">
-                                            <TrashIcon />
-                                        </button>
-                                    </div>
-                                ))}
+                            <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Chunking</h4>
+                            <ChunkingOptions storeName={selectedStore.name} value={chunkingConfig} onChange={setChunkingConfig} />
+                        </div>
+
+                        <div className="mb-4">
+                            <div className="flex justify-between items-center mb-2">
+                                <h4 className="text-sm font-medium text-gem-offwhite/80">Custom Metadata{schema.length === 0 && ' (optional)'}</h4>
+                                <button type="button" onClick={() => setIsSchemaOpen(true)} className="text-xs text-gem-blue hover:text-blue-400" title="Define the metadata keys this store expects">
+                                    {schema.length > 0 ? 'Edit schema' : 'Define schema'}
+                                </button>
                             </div>
-                            <button onClick={addMetadataRow} className="mt-2 flex items-center text-sm text-gem-blue hover:text-blue-400" title="Add another metadata field">
-                                <PlusIcon /> <span className="ml-1">Add Metadata</span>
-                            </button>
+                            <MetadataFieldsEditor schema={schema} drafts={metadataDrafts} onChange={setMetadataDrafts} />
+                            {metadataErrors.length > 0 && (
+                                <ul className="mt-2 text-sm text-red-400 list-disc list-inside">
+                                    {metadataErrors.map(error => <li key={error}>{error}</li>)}
+                                </ul>
+                            )}
                         </div>
                         
                         <div className="flex justify-end space-x-2 mt-6">
                             <button type="button" onClick={handleModalClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Cancel upload">
                                 Cancel
                             </button>
-                            <button type="button" onClick={handleConfirmUpload} disabled={!selectedFile} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed" title="Upload selected file">
-                                Upload
+                            <button type="button" onClick={handleConfirmUpload} disabled={selectedFiles.length === 0} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed" title="Upload selected files">
+                                Upload{selectedFiles.length > 1 ? ` ${selectedFiles.length} Files` : ''}
                             </button>
                         </div>
                     </div>
                 </div>
             )}
 
+            <MetadataSchemaEditor
+                isOpen={isSchemaOpen}
+                store={selectedStore}
+                schema={schema}
+                documents={documents}
+                onSave={handleSaveSchema}
+                onClose={() => setIsSchemaOpen(false)}
+            />
+
+            <DocumentEditModal
+                document={editingDoc}
+                schema={schema}
+                canEditInPlace={canEditInPlace}
+                hasCachedFile={!!editingDoc && cachedDocNames.includes(editingDoc.name)}
+                backendLabel={backendLabel}
+                onSave={handleSaveEdit}
+                onClose={() => setEditingDoc(null)}
+            />
+
+            <BulkTagModal
+                isOpen={isBulkTagOpen}
+                documents={selectedDocs}
+                schema={schema}
+                canEditInPlace={canEditInPlace}
+                cachedDocNames={cachedDocNames}
+                backendLabel={backendLabel}
+                onApply={handleBulkTag}
+                onClose={() => setIsBulkTagOpen(false)}
+            />
+
+            <BulkOperationPanel operation={bulkOperation} onCancel={onCancelBulk} onDismiss={onDismissBulk} />
+
+            <UploadQueuePanel
+                items={uploadItems}
+                onRetry={onRetryUpload}
+                onCancel={onCancelUpload}
+                onClearFinished={onClearFinishedUploads}
+            />
+
             {processingFile && (
                 <div className="mb-4 p-3 bg-gem-mist rounded-md flex items-center">
                     <Spinner />
@@ -153,69 +392,218 @@ const DocumentList: React.FC<DocumentListProps> = ({ selectedStore, documents, i
                 </div>
             ) : documents.length === 0 && !processingFile ? (
                 <div className="flex-grow flex items-center justify-center text-center text-gem-offwhite/60">
-                    <p>No documents found. <br /> Click the upload icon to add one.</p>
+                    <p>No documents found. <br /> Click the upload icon or drop files here to add some.</p>
                 </div>
             ) : (
-                <ul className="space-y-2 overflow-y-auto">
-                     {documents.map((doc) => (
-                        <li key={doc.name} className="bg-gem-mist rounded-md group transition-all duration-200">
-                             <div 
-                                className="p-3 flex items-center justify-between cursor-pointer"
-                                onClick={() => handleToggleExpand(doc.name)}
-                                role="button"
-                                aria-expanded={expandedDocName === doc.name}
-                                aria-controls={`doc-details-${doc.name.split('/').pop()}`}
+                <>
+                    <div className="mb-2 space-y-2 text-sm">
+                        <div className="flex items-center space-x-2">
+                            <input
+                                type="checkbox"
+                                checked={allVisibleSelected}
+                                onChange={toggleSelectAllVisible}
+                                className="h-4 w-4 accent-gem-blue shrink-0"
+                                aria-label="Select all matching documents"
+                                title="Select every loaded document matching the search and filters"
+                            />
+                            <input
+                                type="search"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                                placeholder="Search by name..."
+                                className="flex-grow min-w-0 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                            />
+                            <select
+                                value={sort}
+                                onChange={(e) => setSort(e.target.value as DocumentSort)}
+                                className="bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-1 focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                aria-label="Sort documents"
                             >
-                                <div className="flex-1 overflow-hidden pr-2">
-                                    <span className="truncate font-medium block" title={doc.displayName}>{doc.displayName}</span>
-                                    <span className="text-xs opacity-70 block truncate" title={doc.name}>ID: {doc.name.split('/').pop()}</span>
-                                </div>
-                                <div className="flex items-center shrink-0">
-                                    <button 
-                                        onClick={(e) => { e.stopPropagation(); onDelete(doc.name); }}
-                                        className="p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
-                                        aria-label={`Delete ${doc.displayName}`}
-                                        title={`Delete ${doc.displayName}`}
-                                    >
-                                        <TrashIcon />
+                                {DOCUMENT_SORTS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                            </select>
+                            <button
+                                onClick={() => setIsFilterOpen(open => !open)}
+                                disabled={facets.length === 0}
+                                aria-expanded={isFilterOpen}
+                                className={`px-2 py-1 rounded-md transition-colors disabled:opacity-50 ${activeFacetCount > 0 ? 'bg-gem-blue text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                                title={facets.length === 0 ? 'No metadata to filter by' : 'Filter by metadata'}
+                            >
+                                Filters{activeFacetCount > 0 && ` (${activeFacetCount})`}
+                            </button>
+                        </div>
+                        {isFilterOpen && facets.length > 0 && (
+                            <div className="max-h-48 overflow-y-auto p-2 bg-gem-slate/50 border border-gem-mist/50 rounded-md space-y-2">
+                                {facets.map(facet => (
+                                    <div key={facet.key}>
+                                        <h4 className="text-xs font-semibold text-gem-offwhite/70 mb-1">{facet.key}</h4>
+                                        <div className="flex flex-wrap gap-1">
+                                            {facet.values.map(({ value, count }) => {
+                                                const isSelected = facetSelection[facet.key]?.includes(value);
+                                                return (
+                                                    <button
+                                                        key={value}
+                                                        onClick={() => toggleFacetValue(facet.key, value)}
+                                                        aria-pressed={isSelected}
+                                                        className={`px-2 rounded-full text-xs transition-colors ${isSelected ? 'bg-gem-blue text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                                                    >
+                                                        {value} <span className="opacity-60">{count}</span>
+                                                    </button>
+                                                );
+                                            })}
+                                        </div>
+                                    </div>
+                                ))}
+                                {activeFacetCount > 0 && (
+                                    <button onClick={() => setFacetSelection({})} className="text-xs text-gem-blue hover:text-blue-400" title="Show documents with any metadata">
+                                        Clear filters
                                     </button>
-                                    <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 transition-transform duration-200 ${expandedDocName === doc.name ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor">
-                                        <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
-                                    </svg>
-                                </div>
+                                )}
                             </div>
-
-                            {expandedDocName === doc.name && (
-                                <div 
-                                    id={`doc-details-${doc.name.split('/').pop()}`}
-                                    className="px-3 pb-3 mt-2 border-t border-gem-mist/50 text-xs animate-fade-in"
+                        )}
+                        <p className="text-xs text-gem-offwhite/60">
+                            {visibleDocuments.length === documents.length
+                                ? `${documents.length} ${documents.length === 1 ? 'document' : 'documents'}`
+                                : `${visibleDocuments.length} of ${documents.length} documents`}
+                            {hasMoreDocuments && (
+                                <>
+                                    {' '}loaded, more in the store ·{' '}
+                                    <button onClick={() => onLoadMore(true)} disabled={isLoadingMore} className="text-gem-blue hover:text-blue-400 disabled:opacity-50" title="Load every document so search and filters cover the whole store">
+                                        Load all
+                                    </button>
+                                </>
+                            )}
+                        </p>
+                    </div>
+                    {selectedDocs.length > 0 && (
+                        <div className="mb-2 p-2 bg-gem-blue/20 rounded-md flex items-center flex-wrap gap-2 text-sm">
+                            <span className="flex-grow">{selectedDocs.length} selected</span>
+                            <button onClick={() => setIsBulkTagOpen(true)} disabled={isBulkRunning} className="px-2 py-0.5 rounded-md bg-gem-mist hover:bg-gem-mist/70 disabled:opacity-50" title="Set or remove metadata on the selected documents">
+                                Tag
+                            </button>
+                            <button onClick={() => onMove(selectedDocs.map(doc => doc.name))} disabled={isBulkRunning || !canMove} className="px-2 py-0.5 rounded-md bg-gem-mist hover:bg-gem-mist/70 disabled:opacity-50" title="Move or copy the selected documents to another store">
+                                Move
+                            </button>
+                            <button onClick={() => onExportManifest(selectedDocs.map(doc => doc.name))} className="px-2 py-0.5 rounded-md bg-gem-mist hover:bg-gem-mist/70" title="Download the names and metadata of the selected documents as JSON">
+                                Export
+                            </button>
+                            <button onClick={handleBulkDelete} disabled={isBulkRunning} className="px-2 py-0.5 rounded-md bg-red-600 hover:bg-red-500 text-white disabled:opacity-50" title="Delete the selected documents">
+                                Delete
+                            </button>
+                            <button onClick={() => setSelectedDocNames([])} className="text-gem-offwhite/70 hover:text-gem-offwhite" title="Clear the selection">
+                                Clear
+                            </button>
+                        </div>
+                    )}
+                    <ul className="space-y-2 overflow-y-auto">
+                         {visibleDocuments.length === 0 && (
+                            <li className="text-center text-sm text-gem-offwhite/60 py-6">No loaded documents match.</li>
+                         )}
+                         {visibleDocuments.map((doc) => (
+                            <li
+                                key={doc.name}
+                                ref={el => { docRefs.current[doc.name] = el; }}
+                                className={`bg-gem-mist rounded-md group transition-all duration-200 ${highlightedDocName === doc.name ? 'ring-2 ring-gem-teal' : ''}`}
+                            >
+                                 <div 
+                                    className="p-3 flex items-center justify-between cursor-pointer"
+                                    onClick={() => handleToggleExpand(doc.name)}
+                                    role="button"
+                                    aria-expanded={expandedDocName === doc.name}
+                                    aria-controls={`doc-details-${doc.name.split('/').pop()}`}
                                 >
-                                    <div className="mt-2">
-                                        <h4 className="font-semibold text-gem-offwhite/70 mb-1">Full Name:</h4>
-                                        <p className="font-mono text-gem-offwhite/60 break-all pb-2">{doc.name}</p>
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedDocNames.includes(doc.name)}
+                                        onChange={() => toggleSelected(doc.name)}
+                                        onClick={(e) => e.stopPropagation()}
+                                        className="h-4 w-4 mr-3 accent-gem-blue shrink-0"
+                                        aria-label={`Select ${doc.displayName}`}
+                                    />
+                                    <div className="flex-1 overflow-hidden pr-2">
+                                        <span className="truncate font-medium block" title={doc.displayName}>{doc.displayName}</span>
+                                        <span className="text-xs opacity-70 block truncate" title={doc.name}>ID: {doc.name.split('/').pop()}</span>
                                     </div>
-                                    {doc.customMetadata && doc.customMetadata.length > 0 ? (
-                                        <div>
-                                            <h4 className="font-semibold text-gem-offwhite/70 mb-1">Metadata:</h4>
-                                            <dl className="space-y-1">
-                                                {doc.customMetadata.map((meta, index) => (
-                                                    meta.key && (
-                                                        <div key={index} className="flex">
-                                                            <dt className="w-1/3 font-medium text-gem-offwhite/80 truncate pr-2" title={meta.key}>{meta.key}</dt>
-                                                            <dd className="w-2/3 text-gem-offwhite/60 truncate" title={meta.stringValue}>{meta.stringValue}</dd>
-                                                        </div>
-                                                    )
-                                                ))}
-                                            </dl>
+                                    <div className="flex items-center shrink-0">
+                                        <DocumentStateBadge state={doc.state} />
+                                        <button 
+                                            onClick={(e) => { e.stopPropagation(); onDelete(doc.name); }}
+                                            className="p-1 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                                            aria-label={`Delete ${doc.displayName}`}
+                                            title={`Delete ${doc.displayName}`}
+                                        >
+                                            <TrashIcon />
+                                        </button>
+                                        <svg xmlns="http://www.w3.org/2000/svg" className={`h-5 w-5 transition-transform duration-200 ${expandedDocName === doc.name ? 'rotate-180' : ''}`} viewBox="0 0 20 20" fill="currentColor">
+                                            <path fillRule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clipRule="evenodd" />
+                                        </svg>
+                                    </div>
+                                </div>
+
+                                {expandedDocName === doc.name && (
+                                    <div 
+                                        id={`doc-details-${doc.name.split('/').pop()}`}
+                                        className="px-3 pb-3 mt-2 border-t border-gem-mist/50 text-xs animate-fade-in"
+                                    >
+                                        <div className="mt-2">
+                                            <h4 className="font-semibold text-gem-offwhite/70 mb-1">Full Name:</h4>
+                                            <p className="font-mono text-gem-offwhite/60 break-all pb-2">{doc.name}</p>
                                         </div>
-                                    ) : (
-                                        <p className="text-gem-offwhite/60">No custom metadata.</p>
+                                        <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 pb-2">
+                                            <dt className="font-semibold text-gem-offwhite/70">State</dt>
+                                            <dd className="text-gem-offwhite/60">{doc.state ?? 'unknown'}</dd>
+                                            <dt className="font-semibold text-gem-offwhite/70">Size</dt>
+                                            <dd className="text-gem-offwhite/60">{formatBytes(doc.sizeBytes)}</dd>
+                                            <dt className="font-semibold text-gem-offwhite/70">Type</dt>
+                                            <dd className="text-gem-offwhite/60 truncate" title={doc.mimeType}>{doc.mimeType || '–'}</dd>
+                                            <dt className="font-semibold text-gem-offwhite/70">Created</dt>
+                                            <dd className="text-gem-offwhite/60">{formatDateTime(doc.createTime)}</dd>
+                                            <dt className="font-semibold text-gem-offwhite/70">Updated</dt>
+                                            <dd className="text-gem-offwhite/60">{formatDateTime(doc.updateTime)}</dd>
+                                            <dt className="font-semibold text-gem-offwhite/70">Original</dt>
+                                            <dd className="text-gem-offwhite/60">{cachedDocNames.includes(doc.name) ? 'Cached in this browser' : 'Not cached'}</dd>
+                                        </dl>
+                                        {doc.customMetadata && doc.customMetadata.length > 0 ? (
+                                            <div>
+                                                <h4 className="font-semibold text-gem-offwhite/70 mb-1">Metadata:</h4>
+                                                <dl className="space-y-1">
+                                                    {doc.customMetadata.map((meta, index) => (
+                                                        meta.key && (
+                                                            <div key={index} className="flex">
+                                                                <dt className="w-1/3 font-medium text-gem-offwhite/80 truncate pr-2" title={meta.key}>{meta.key}</dt>
+                                                                <dd className="w-2/3 text-gem-offwhite/60 truncate" title={formatMetadataValue(meta)}>{formatMetadataValue(meta)}</dd>
+                                                            </div>
+                                                        )
+                                                    ))}
+                                                </dl>
+                                            </div>
+                                        ) : (
+                                            <p className="text-gem-offwhite/60">No custom metadata.</p>
+                                        )}
+                                        <button
+                                            onClick={() => setEditingDoc(doc)}
+                                            disabled={!!processingFile}
+                                            className="mt-3 px-3 py-1 rounded-md bg-gem-slate hover:bg-gem-slate/70 text-gem-offwhite/80 disabled:opacity-50"
+                                            title="Rename this document or change its metadata"
+                                        >
+                                            Edit
+                                        </button>
+                                    </div>
+                                )}
+                            </li>
+                        ))}
+                        {hasMoreDocuments && (
+                            <li>
+                                <div ref={loadMoreSentinelRef} className="flex justify-center py-2">
+                                    {isLoadingMore ? <Spinner /> : (
+                                        <button onClick={() => onLoadMore()} className="text-sm text-gem-blue hover:text-blue-400" title="Load the next page of documents">
+                                            Load more
+                                        </button>
                                     )}
                                 </div>
-                            )}
-                        </li>
-                    ))}
-                </ul>
+                            </li>
+                        )}
+                    </ul>
+                </>
             )}
         </div>
     );
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Document } from '../types';
+import { PreviewContent, findChunkRanges, highlightElement, loadPreviewContent, splitByRanges } from '../services/documentPreview';
+import Spinner from './Spinner';
+
+interface DocumentPreviewModalProps {
+    document: Document | null;
+    // Texts of the retrieved chunks to highlight, and the one to scroll to first.
+    chunks: string[];
+    initialChunkIndex: number;
+    loadFile: (document: Document) => Promise<File | undefined>;
+    onClose: () => void;
+}
+
+const FRAME_STYLES = `<style>
+    mark { background: #fde68a; color: inherit; border-radius: 2px; }
+    mark.active { background: #f59e0b; }
+</style>`;
+
+const DocumentPreviewModal: React.FC<DocumentPreviewModalProps> = ({ document, chunks, initialChunkIndex, loadFile, onClose }) => {
+    const [content, setContent] = useState<PreviewContent | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [focusIndex, setFocusIndex] = useState(initialChunkIndex);
+    const [frameChunks, setFrameChunks] = useState<Set<number> | null>(null);
+    const containerRef = useRef<HTMLDivElement>(null);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+
+    useEffect(() => {
+        setFocusIndex(initialChunkIndex);
+    }, [document, initialChunkIndex]);
+
+    useEffect(() => {
+        if (!document) return;
+        let cancelled = false;
+        setContent(null);
+        setError(null);
+        setFrameChunks(null);
+        (async () => {
+            const file = await loadFile(document);
+            if (!file) {
+                throw new Error('No copy of this document is cached in this browser. Documents can be previewed once uploaded from here.');
+            }
+            return loadPreviewContent(file);
+        })().then(
+            loaded => { if (!cancelled) setContent(loaded); },
+            err => { if (!cancelled) setError(err instanceof Error ? err.message : String(err)); },
+        );
+        return () => { cancelled = true; };
+    }, [document]);
+
+    const pageRanges = useMemo(
+        () => content && 'pages' in content ? content.pages.map(page => findChunkRanges(page, chunks)) : [],
+        [content, chunks],
+    );
+
+    const foundChunks = content && 'html' in content
+        ? frameChunks ?? new Set<number>()
+        : new Set(pageRanges.flat().map(range => range.chunkIndex));
+
+    // Marks inside the frame aren't rendered by React, so their focus is set here.
+    useEffect(() => {
+        const inFrame = !!content && 'html' in content;
+        const root = inFrame ? frameRef.current?.contentDocument?.body : containerRef.current;
+        if (!root) return;
+        const marks: HTMLElement[] = Array.from(root.querySelectorAll('mark[data-chunk]'));
+        if (inFrame) {
+            marks.forEach(mark => mark.classList.toggle('active', mark.dataset.chunk === String(focusIndex)));
+        }
+        marks.find(mark => mark.dataset.chunk === String(focusIndex))?.scrollIntoView({ block: 'center' });
+    }, [content, frameChunks, focusIndex]);
+
+    if (!document) return null;
+
+    const handleFrameLoad = () => {
+        const body = frameRef.current?.contentDocument?.body;
+        if (!body) return;
+        const marks = highlightElement(body, chunks);
+        setFrameChunks(new Set(marks.map(mark => Number(mark.dataset.chunk))));
+    };
+
+    const renderContent = () => {
+        if (error) {
+            return <p className="text-center text-gem-offwhite/70 py-10 px-6">{error}</p>;
+        }
+        if (!content) {
+            return <div className="flex items-center justify-center py-10"><Spinner /> <span className="ml-3">Loading document...</span></div>;
+        }
+        if ('html' in content) {
+            return (
+                <iframe
+                    ref={frameRef}
+                    title={`Preview of ${document.displayName}`}
+                    // Same origin so the text can be highlighted, but no scripts.
+                    sandbox="allow-same-origin"
+                    srcDoc={FRAME_STYLES + content.html}
+                    onLoad={handleFrameLoad}
+                    className="w-full h-full bg-white rounded"
+                />
+            );
+        }
+        return (
+            <div ref={containerRef} className="h-full overflow-y-auto space-y-4">
+                {content.pages.map((page, pageIndex) => (
+                    <div key={pageIndex}>
+                        {content.format === 'pdf' && <div className="text-xs text-gem-offwhite/50 mb-1">Page {pageIndex + 1}</div>}
+                        <pre className="whitespace-pre-wrap break-words font-sans text-sm bg-gem-onyx/50 p-3 rounded">
+                            {splitByRanges(page, pageRanges[pageIndex]).map((segment, segmentIndex) => segment.chunkIndex === undefined ? (
+                                <React.Fragment key={segmentIndex}>{segment.text}</React.Fragment>
+                            ) : (
+                                <mark
+                                    key={segmentIndex}
+                                    data-chunk={segment.chunkIndex}
+                                    className={`rounded-sm text-gem-onyx ${segment.chunkIndex === focusIndex ? 'bg-amber-500' : 'bg-amber-200'}`}
+                                >
+                                    {segment.text}
+                                </mark>
+                            ))}
+                        </pre>
+                    </div>
+                ))}
+            </div>
+        );
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="preview-title" onClick={onClose}>
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-4xl h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-start mb-3 gap-4">
+                    <div className="min-w-0">
+                        <h3 id="preview-title" className="text-xl font-bold truncate" title={document.displayName}>{document.displayName}</h3>
+                        {content && (
+                            <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+                                <span className="text-gem-offwhite/60 mr-1">Retrieved chunks:</span>
+                                {chunks.map((chunk, chunkIndex) => (
+                                    <button
+                                        key={chunkIndex}
+                                        onClick={() => setFocusIndex(chunkIndex)}
+                                        disabled={!foundChunks.has(chunkIndex)}
+                                        className={`px-2 py-0.5 rounded transition-colors disabled:opacity-40 disabled:line-through ${
+                                            chunkIndex === focusIndex ? 'bg-amber-500 text-gem-onyx' : 'bg-gem-mist hover:bg-gem-mist/70'
+                                        }`}
+                                        title={foundChunks.has(chunkIndex) ? chunk.slice(0, 200) : 'Not found in the document text'}
+                                    >
+                                        {chunkIndex + 1}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors shrink-0" title="Close">
+                        Close
+                    </button>
+                </div>
+                <div className="flex-grow min-h-0">
+                    {renderContent()}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DocumentPreviewModal;
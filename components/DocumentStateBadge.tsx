@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { DocumentState } from '../types';
+
+interface DocumentStateBadgeProps {
+    state?: DocumentState;
+    // Active documents are the norm, so by default they get no badge.
+    showActive?: boolean;
+}
+
+const STATE_STYLES: Record<DocumentState, { className: string, title: string }> = {
+    active: { className: 'bg-green-700 text-white', title: 'Indexed and searchable' },
+    pending: { className: 'bg-gem-teal text-white', title: 'Still being chunked and embedded; not fully searchable yet' },
+    failed: { className: 'bg-red-700 text-white', title: 'Indexing failed for some or all of this document' },
+    unknown: { className: 'bg-gem-slate text-gem-offwhite/70', title: 'The store did not report a state' },
+};
+
+const DocumentStateBadge: React.FC<DocumentStateBadgeProps> = ({ state, showActive = false }) => {
+    if (!state || (state === 'active' && !showActive)) return null;
+    const style = STATE_STYLES[state];
+    return (
+        <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${style.className}`} title={style.title}>
+            {state}
+        </span>
+    );
+};
+
+export default DocumentStateBadge;
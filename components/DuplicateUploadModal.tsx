@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { UploadDuplicate, UploadDuplicateAction } from '../types';
+
+interface DuplicateUploadModalProps {
+    duplicates: UploadDuplicate[];
+    // How many files are being uploaded in total, duplicates included.
+    fileCount: number;
+    onConfirm: (actions: Map<File, UploadDuplicateAction>) => void;
+    onClose: () => void;
+}
+
+const ACTIONS: Record<UploadDuplicate['kind'], { id: UploadDuplicateAction, label: string }[]> = {
+    identical: [
+        { id: 'skip', label: 'Skip' },
+        { id: 'upload', label: 'Upload anyway' },
+    ],
+    changed: [
+        { id: 'replace', label: 'Replace existing' },
+        { id: 'upload', label: 'Keep both' },
+        { id: 'skip', label: 'Skip' },
+    ],
+};
+
+const DuplicateUploadModal: React.FC<DuplicateUploadModalProps> = ({ duplicates, fileCount, onConfirm, onClose }) => {
+    const [actions, setActions] = useState<Map<File, UploadDuplicateAction>>(new Map());
+
+    useEffect(() => {
+        setActions(new Map(duplicates.map(duplicate => [duplicate.file, ACTIONS[duplicate.kind][0].id])));
+    }, [duplicates]);
+
+    if (duplicates.length === 0) return null;
+
+    const setAction = (file: File, action: UploadDuplicateAction) => {
+        setActions(prev => new Map(prev).set(file, action));
+    };
+
+    const uploadCount = fileCount - [...actions.values()].filter(action => action === 'skip').length;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="duplicate-upload-title">
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 id="duplicate-upload-title" className="text-xl font-bold mb-1">Already in This Store</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">
+                    {duplicates.length} of {fileCount} {fileCount === 1 ? 'file matches' : 'files match'} documents uploaded from this browser.
+                    Replacing uploads the new content, then deletes the old document.
+                </p>
+                <ul className="space-y-3 text-sm">
+                    {duplicates.map(duplicate => (
+                        <li key={`${duplicate.file.name}-${duplicate.existing.docName}`} className="p-2 bg-gem-mist/40 rounded-md">
+                            <p className="truncate font-medium" title={duplicate.file.name}>{duplicate.file.name}</p>
+                            <p className="text-xs text-gem-offwhite/60 mb-2 truncate" title={duplicate.existing.docName}>
+                                {duplicate.kind === 'identical'
+                                    ? `Same content as ${duplicate.existing.displayName}`
+                                    : 'Different content under the same name'}
+                            </p>
+                            <div className="flex flex-wrap gap-3">
+                                {ACTIONS[duplicate.kind].map(action => (
+                                    <label key={action.id} className="flex items-center space-x-1 cursor-pointer">
+                                        <input
+                                            type="radio"
+                                            name={`duplicate-${duplicate.existing.docName}-${duplicate.file.name}`}
+                                            checked={actions.get(duplicate.file) === action.id}
+                                            onChange={() => setAction(duplicate.file, action.id)}
+                                            className="accent-gem-blue"
+                                        />
+                                        <span>{action.label}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+                <div className="flex justify-end space-x-2 mt-6">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Upload nothing">
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onConfirm(actions)}
+                        disabled={uploadCount === 0}
+                        className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed"
+                        title="Upload with the choices above"
+                    >
+                        Upload {uploadCount}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DuplicateUploadModal;
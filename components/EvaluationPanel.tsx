@@ -0,0 +1,293 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { RagStore, Document, ModelSettings, QueryResult, EvalQuestion, EvalRun, EvalQuestionResult } from '../types';
+import { DEFAULT_EVAL_K, deleteEvalRun, loadEvalRuns, loadQuestionSetText, parseQuestionSet, runEvaluation, saveEvalRun, saveQuestionSetText, summarizeResults } from '../services/evaluation';
+import Spinner from './Spinner';
+import UploadIcon from './icons/UploadIcon';
+import TrashIcon from './icons/TrashIcon';
+
+interface EvaluationPanelProps {
+    selectedStore: RagStore;
+    searchStores: RagStore[];
+    documents: Document[];
+    modelSettings: ModelSettings;
+    onSearch: (question: string, abortSignal: AbortSignal) => Promise<QueryResult>;
+}
+
+const EXAMPLE_QUESTION_SET = `[
+  {
+    "question": "What is the refund window?",
+    "expectedAnswers": ["30 days"],
+    "expectedSources": ["returns-policy.pdf"]
+  }
+]`;
+
+const formatScore = (value?: number) => value === undefined ? '–' : `${Math.round(value * 100)}%`;
+
+const inputClassName = "bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const QuestionResultRow: React.FC<{ result: EvalQuestionResult, k: number }> = ({ result, k }) => (
+    <details className="bg-gem-mist/40 rounded-md">
+        <summary className="cursor-pointer p-2 text-sm flex items-center gap-2">
+            <span className="flex-1 truncate" title={result.question}>{result.question}</span>
+            {result.error ? (
+                <span className="text-xs px-2 py-0.5 rounded bg-red-700 text-white shrink-0" title={result.error}>failed</span>
+            ) : (
+                <span className="text-xs text-gem-offwhite/70 shrink-0">
+                    {result.sourceHit !== undefined && <span className={result.sourceHit ? 'text-green-400' : 'text-red-400'}>{result.sourceHit ? 'hit' : 'miss'} </span>}
+                    {result.recallAtK !== undefined && <span>R@{k} {formatScore(result.recallAtK)} </span>}
+                    {result.answerSimilarity !== undefined && <span>sim {formatScore(result.answerSimilarity)}</span>}
+                </span>
+            )}
+        </summary>
+        <div className="px-3 pb-3 text-sm space-y-2">
+            {result.error ? (
+                <p className="text-red-300">{result.error}</p>
+            ) : (
+                <>
+                    <p className="whitespace-pre-wrap text-gem-offwhite/90">{result.answer || <em>No answer</em>}</p>
+                    <p className="text-xs text-gem-offwhite/60">
+                        Sources: {result.retrievedSources.length > 0 ? result.retrievedSources.join(', ') : 'none'}
+                    </p>
+                </>
+            )}
+        </div>
+    </details>
+);
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ selectedStore, searchStores, documents, modelSettings, onSearch }) => {
+    const [questionText, setQuestionText] = useState('');
+    const [k, setK] = useState(DEFAULT_EVAL_K);
+    const [runs, setRuns] = useState<EvalRun[]>(loadEvalRuns);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [progress, setProgress] = useState<EvalQuestionResult[] | null>(null);
+    const [saveError, setSaveError] = useState<string | null>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const isRunning = progress !== null;
+
+    useEffect(() => {
+        setQuestionText(loadQuestionSetText(selectedStore.name));
+    }, [selectedStore.name]);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    let questions: EvalQuestion[] = [];
+    let parseError: string | null = null;
+    try {
+        questions = parseQuestionSet(questionText);
+    } catch (err) {
+        parseError = err instanceof Error ? err.message : String(err);
+    }
+
+    const selectedRun = runs.find(run => run.id === selectedRunId);
+
+    const handleQuestionTextChange = (text: string) => {
+        setQuestionText(text);
+        saveQuestionSetText(selectedStore.name, text);
+    };
+
+    const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) {
+            handleQuestionTextChange(await file.text());
+        }
+    };
+
+    const handleRun = async () => {
+        const abortController = new AbortController();
+        abortControllerRef.current = abortController;
+        const startedAt = Date.now();
+        setProgress([]);
+        const results = await runEvaluation(questions, onSearch, {
+            documents,
+            k,
+            abortSignal: abortController.signal,
+            onProgress: setProgress,
+        });
+        abortControllerRef.current = null;
+        setProgress(null);
+        // A stopped run is incomplete, so its numbers aren't comparable with other runs.
+        if (abortController.signal.aborted) return;
+        const run: EvalRun = {
+            id: crypto.randomUUID(),
+            name: `${searchStores.map(s => s.displayName).join(' + ')} · ${modelSettings.model}`,
+            startedAt,
+            storeNames: searchStores.map(s => s.name),
+            k,
+            settings: modelSettings,
+            results,
+            summary: summarizeResults(results),
+        };
+        try {
+            setRuns(saveEvalRun(run));
+            setSaveError(null);
+        } catch (err) {
+            // Usually a full localStorage. The run is still shown until the page is closed.
+            console.error('Failed to save the evaluation run', err);
+            setRuns(prev => [run, ...prev]);
+            setSaveError(`This run couldn't be saved: ${err instanceof Error ? err.message : String(err)}. Delete older runs to make room.`);
+        }
+        setSelectedRunId(run.id);
+    };
+
+    const handleDeleteRun = (id: string) => {
+        deleteEvalRun(id);
+        // Filtered in place rather than reloaded, so a run that couldn't be saved stays listed.
+        setRuns(prev => prev.filter(run => run.id !== id));
+        if (selectedRunId === id) setSelectedRunId(null);
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="flex justify-between items-center mb-4 gap-2">
+                <h2 className="text-xl font-bold truncate" title={searchStores.map(s => s.displayName).join(', ')}>
+                    Evaluate: {selectedStore.displayName}
+                    {searchStores.length > 1 && (
+                        <span className="ml-2 text-sm font-normal text-gem-offwhite/70">
+                            + {searchStores.length - 1} more {searchStores.length > 2 ? 'stores' : 'store'}
+                        </span>
+                    )}
+                </h2>
+                <span className="text-sm text-gem-offwhite/70 shrink-0">Model: {modelSettings.model}</span>
+            </div>
+
+            <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+                <section>
+                    <div className="flex justify-between items-center mb-2">
+                        <label htmlFor="eval-questions" className="text-sm font-semibold text-gem-teal">Question set</label>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            disabled={isRunning}
+                            className="flex items-center space-x-1 text-sm text-gem-blue hover:text-blue-400 disabled:text-gem-offwhite/40"
+                            title="Load questions from a .json, .jsonl or .txt file"
+                        >
+                            <UploadIcon /> <span>Load file</span>
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".json,.jsonl,.txt" className="hidden" onChange={handleFileChange} />
+                    </div>
+                    <textarea
+                        id="eval-questions"
+                        value={questionText}
+                        onChange={(e) => handleQuestionTextChange(e.target.value)}
+                        disabled={isRunning}
+                        rows={8}
+                        placeholder={EXAMPLE_QUESTION_SET}
+                        spellCheck={false}
+                        className={`${inputClassName} w-full font-mono`}
+                    />
+                    <p className={`text-xs mt-1 ${parseError ? 'text-red-400' : 'text-gem-offwhite/60'}`}>
+                        {parseError
+                            ? parseError
+                            : `${questions.length} ${questions.length === 1 ? 'question' : 'questions'}. JSON, JSON Lines, or one question per line. Expected sources match document display names.`}
+                    </p>
+                    <div className="flex items-center space-x-2 mt-3">
+                        <label htmlFor="eval-k" className="text-sm text-gem-offwhite/70">Recall@</label>
+                        <input
+                            id="eval-k"
+                            type="number"
+                            min={1}
+                            value={k}
+                            onChange={(e) => setK(Math.max(1, Number(e.target.value) || 1))}
+                            disabled={isRunning}
+                            className={`${inputClassName} w-20`}
+                        />
+                        <div className="flex-grow" />
+                        {isRunning ? (
+                            <>
+                                <Spinner />
+                                <span className="text-sm">{progress.length} / {questions.length}</span>
+                                <button onClick={() => abortControllerRef.current?.abort()} className="px-4 py-1 bg-red-600 hover:bg-red-500 rounded-md text-white text-sm transition-colors" title="Stop the run without saving it">
+                                    Stop
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={handleRun}
+                                disabled={questions.length === 0 || !!parseError}
+                                className="px-4 py-1 bg-gem-blue hover:bg-blue-500 rounded-md text-white text-sm transition-colors disabled:bg-gem-mist disabled:cursor-not-allowed"
+                                title="Ask every question and score the answers"
+                            >
+                                Run evaluation
+                            </button>
+                        )}
+                    </div>
+                </section>
+
+                {runs.length > 0 && (
+                    <section>
+                        <h3 className="text-sm font-semibold text-gem-teal mb-2">Runs</h3>
+                        {saveError && <p className="text-xs text-red-400 mb-2">{saveError}</p>}
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead className="text-left text-xs text-gem-offwhite/60">
+                                    <tr>
+                                        <th className="font-normal py-1 pr-2">Run</th>
+                                        <th className="font-normal py-1 pr-2 text-right" title="Share of questions where an expected source was retrieved">Source hit</th>
+                                        <th className="font-normal py-1 pr-2 text-right" title="Mean share of expected sources in the top k retrieved documents">Recall@k</th>
+                                        <th className="font-normal py-1 pr-2 text-right" title="Mean token-overlap F1 with the best expected answer">Answer sim.</th>
+                                        <th className="sr-only">Actions</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {runs.map(run => (
+                                        <tr
+                                            key={run.id}
+                                            onClick={() => setSelectedRunId(run.id === selectedRunId ? null : run.id)}
+                                            className={`cursor-pointer border-t border-gem-mist/50 ${run.id === selectedRunId ? 'bg-gem-blue/20' : 'hover:bg-gem-mist/30'}`}
+                                        >
+                                            <td className="py-1 pr-2">
+                                                <div className="truncate max-w-64" title={run.name}>{run.name}</div>
+                                                <div className="text-xs text-gem-offwhite/50">
+                                                    {new Date(run.startedAt).toLocaleString()} · {run.summary.questionCount} questions
+                                                    {run.summary.failedCount > 0 && <span className="text-red-400"> · {run.summary.failedCount} failed</span>}
+                                                </div>
+                                            </td>
+                                            <td className="py-1 pr-2 text-right">{formatScore(run.summary.sourceHitRate)}</td>
+                                            <td className="py-1 pr-2 text-right" title={`k = ${run.k}`}>{formatScore(run.summary.meanRecallAtK)}</td>
+                                            <td className="py-1 pr-2 text-right">{formatScore(run.summary.meanAnswerSimilarity)}</td>
+                                            <td className="py-1 text-right">
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); handleDeleteRun(run.id); }}
+                                                    className="p-1 text-red-400 hover:text-red-300"
+                                                    aria-label={`Delete run ${run.name}`}
+                                                    title="Delete this run"
+                                                >
+                                                    <TrashIcon />
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </section>
+                )}
+
+                {(isRunning || selectedRun) && (
+                    <section>
+                        <h3 className="text-sm font-semibold text-gem-teal mb-2 truncate">
+                            {isRunning ? 'Current run' : selectedRun.name}
+                        </h3>
+                        {!isRunning && (
+                            <p className="text-xs text-gem-offwhite/60 mb-2">
+                                Temperature {selectedRun.settings.temperature ?? 'default'} · top-p {selectedRun.settings.topP ?? 'default'} · recall@{selectedRun.k}
+                            </p>
+                        )}
+                        <div className="space-y-2">
+                            {(isRunning ? progress : selectedRun.results).map((result, index) => (
+                                <QuestionResultRow key={index} result={result} k={isRunning ? k : selectedRun.k} />
+                            ))}
+                        </div>
+                    </section>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default EvaluationPanel;
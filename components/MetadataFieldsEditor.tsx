@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { MetadataFieldSchema, MetadataValueType } from '../types';
+import { MetadataDraft, splitListValue } from '../services/documentUpdate';
+import TagInput from './TagInput';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface MetadataFieldsEditorProps {
+    // Drafts for schema fields are expected first; see `applySchemaToDrafts`.
+    schema: MetadataFieldSchema[];
+    drafts: MetadataDraft[];
+    onChange: (drafts: MetadataDraft[]) => void;
+}
+
+const VALUE_TYPES: { id: MetadataValueType, label: string }[] = [
+    { id: 'string', label: 'Text' },
+    { id: 'stringList', label: 'List' },
+    { id: 'numeric', label: 'Number' },
+];
+
+const inputClassName = 'bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue';
+
+/**
+ * Inputs for a document's metadata. Keys from the store's schema get a fixed
+ * label and an input for their type; any other keys can be added freely.
+ */
+const MetadataFieldsEditor: React.FC<MetadataFieldsEditorProps> = ({ schema, drafts, onChange }) => {
+    const updateDraft = (index: number, changes: Partial<MetadataDraft>) => {
+        onChange(drafts.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+    };
+
+    const renderValueInput = (draft: MetadataDraft, index: number, field?: MetadataFieldSchema) => {
+        const allowedValues = field?.allowedValues ?? [];
+        if (draft.valueType === 'stringList') {
+            return (
+                <div className="flex-grow min-w-0">
+                    <TagInput
+                        values={splitListValue(draft.value)}
+                        onChange={values => updateDraft(index, { value: values.join(', ') })}
+                        suggestions={allowedValues}
+                        placeholder="Type a value and press Enter"
+                    />
+                </div>
+            );
+        }
+        if (draft.valueType === 'string' && allowedValues.length > 0) {
+            return (
+                <select value={draft.value} onChange={(e) => updateDraft(index, { value: e.target.value })} className={`flex-grow min-w-0 ${inputClassName}`} aria-label={`Value for ${draft.key}`}>
+                    <option value="">{field.required ? 'Choose a value' : 'None'}</option>
+                    {allowedValues.map(value => <option key={value} value={value}>{value}</option>)}
+                </select>
+            );
+        }
+        return (
+            <input
+                type={draft.valueType === 'numeric' ? 'number' : 'text'}
+                placeholder="Value"
+                value={draft.value}
+                onChange={(e) => updateDraft(index, { value: e.target.value })}
+                className={`flex-grow min-w-0 ${inputClassName}`}
+                aria-label={draft.key ? `Value for ${draft.key}` : 'Value'}
+            />
+        );
+    };
+
+    return (
+        <div>
+            <div className="space-y-2 max-h-64 overflow-y-auto pr-2">
+                {drafts.map((draft, index) => {
+                    const field = index < schema.length ? schema[index] : undefined;
+                    return (
+                        <div key={index} className="flex items-center space-x-2">
+                            {field ? (
+                                <span className="w-1/3 text-sm truncate" title={field.key}>
+                                    {field.key}{field.required && <span className="text-red-400" title="Required"> *</span>}
+                                </span>
+                            ) : (
+                                <>
+                                    <input type="text" placeholder="Key" value={draft.key} onChange={(e) => updateDraft(index, { key: e.target.value })} className={`w-1/3 ${inputClassName}`} />
+                                    <select
+                                        value={draft.valueType}
+                                        onChange={(e) => updateDraft(index, { valueType: e.target.value as MetadataValueType })}
+                                        className={`w-24 ${inputClassName} px-1`}
+                                        aria-label="Value type"
+                                    >
+                                        {VALUE_TYPES.map(type => <option key={type.id} value={type.id}>{type.label}</option>)}
+                                    </select>
+                                </>
+                            )}
+                            {renderValueInput(draft, index, field)}
+                            {!field && (
+                                <button onClick={() => onChange(drafts.filter((_, i) => i !== index))} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label="Remove metadata row" title="Remove metadata row">
+                                    <TrashIcon />
+                                </button>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+            <button onClick={() => onChange([...drafts, { key: '', valueType: 'string', value: '' }])} className="mt-2 flex items-center text-sm text-gem-blue hover:text-blue-400" title="Add another metadata field">
+                <PlusIcon /> <span className="ml-1">Add Metadata</span>
+            </button>
+        </div>
+    );
+};
+
+export default MetadataFieldsEditor;
@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useMemo } from 'react';
+import { Document, MetadataFilter, MetadataFilterCondition, MetadataFilterOperator, MetadataKeyInfo } from '../types';
+import { buildMetadataFilter, collectMetadataKeys } from '../services/metadataFilter';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface MetadataFilterBuilderProps {
+    documents: Document[];
+    filter: MetadataFilter;
+    onChange: (filter: MetadataFilter) => void;
+    disabled?: boolean;
+}
+
+const OPERATOR_LABELS: Record<MetadataFilterOperator, string> = {
+    eq: 'equals',
+    in: 'is any of',
+    range: 'between',
+};
+
+const operatorsFor = (info?: MetadataKeyInfo): MetadataFilterOperator[] => {
+    switch (info?.valueType) {
+        case 'numeric': return ['eq', 'in', 'range'];
+        // A list value has no single value to compare against, only membership.
+        case 'stringList': return ['in'];
+        default: return ['eq', 'in'];
+    }
+};
+
+const inputClassName = "bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const MetadataFilterBuilder: React.FC<MetadataFilterBuilderProps> = ({ documents, filter, onChange, disabled }) => {
+    const keys = useMemo(() => collectMetadataKeys(documents), [documents]);
+    const expression = buildMetadataFilter(filter);
+
+    const updateCondition = (id: string, changes: Partial<MetadataFilterCondition>) => {
+        onChange({
+            ...filter,
+            conditions: filter.conditions.map(c => c.id === id ? { ...c, ...changes } : c),
+        });
+    };
+
+    const handleKeyChange = (condition: MetadataFilterCondition, key: string) => {
+        const info = keys.find(k => k.key === key);
+        updateCondition(condition.id, {
+            key,
+            valueType: info?.valueType || 'string',
+            operator: operatorsFor(info)[0],
+            values: [],
+            min: undefined,
+            max: undefined,
+        });
+    };
+
+    const addCondition = () => {
+        const info = keys[0];
+        onChange({
+            ...filter,
+            conditions: [...filter.conditions, {
+                id: crypto.randomUUID(),
+                key: info?.key || '',
+                valueType: info?.valueType || 'string',
+                operator: operatorsFor(info)[0],
+                values: [],
+            }],
+        });
+    };
+
+    const removeCondition = (id: string) => {
+        onChange({ ...filter, conditions: filter.conditions.filter(c => c.id !== id) });
+    };
+
+    const parseBound = (text: string) => text.trim() === '' ? undefined : Number(text);
+
+    if (keys.length === 0) {
+        return (
+            <p className="text-sm text-gem-offwhite/60">
+                None of the documents in this store have custom metadata to filter on.
+            </p>
+        );
+    }
+
+    return (
+        <div className="space-y-3">
+            {filter.conditions.length > 1 && (
+                <div className="flex items-center space-x-2 text-sm">
+                    <span className="text-gem-offwhite/80">Match</span>
+                    <select
+                        value={filter.combinator}
+                        onChange={(e) => onChange({ ...filter, combinator: e.target.value as MetadataFilter['combinator'] })}
+                        disabled={disabled}
+                        className={inputClassName}
+                        aria-label="How conditions are combined"
+                    >
+                        <option value="AND">all conditions (AND)</option>
+                        <option value="OR">any condition (OR)</option>
+                    </select>
+                </div>
+            )}
+            {filter.conditions.map(condition => {
+                const info = keys.find(k => k.key === condition.key);
+                const listId = `filter-values-${condition.id}`;
+                return (
+                    <div key={condition.id} className="flex flex-wrap items-center gap-2">
+                        <select
+                            value={condition.key}
+                            onChange={(e) => handleKeyChange(condition, e.target.value)}
+                            disabled={disabled}
+                            className={inputClassName}
+                            aria-label="Metadata key"
+                        >
+                            {keys.map(k => <option key={k.key} value={k.key}>{k.key}</option>)}
+                        </select>
+                        <select
+                            value={condition.operator}
+                            onChange={(e) => updateCondition(condition.id, { operator: e.target.value as MetadataFilterOperator })}
+                            disabled={disabled}
+                            className={inputClassName}
+                            aria-label="Comparison"
+                        >
+                            {operatorsFor(info).map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+                        </select>
+                        {condition.operator === 'range' ? (
+                            <>
+                                <input
+                                    type="number"
+                                    placeholder="min"
+                                    value={condition.min ?? ''}
+                                    onChange={(e) => updateCondition(condition.id, { min: parseBound(e.target.value) })}
+                                    disabled={disabled}
+                                    className={`${inputClassName} w-24`}
+                                    aria-label="Minimum value"
+                                />
+                                <span className="text-sm text-gem-offwhite/60">and</span>
+                                <input
+                                    type="number"
+                                    placeholder="max"
+                                    value={condition.max ?? ''}
+                                    onChange={(e) => updateCondition(condition.id, { max: parseBound(e.target.value) })}
+                                    disabled={disabled}
+                                    className={`${inputClassName} w-24`}
+                                    aria-label="Maximum value"
+                                />
+                            </>
+                        ) : (
+                            <>
+                                <input
+                                    type={condition.operator === 'eq' && condition.valueType === 'numeric' ? 'number' : 'text'}
+                                    list={listId}
+                                    placeholder={condition.operator === 'in' ? 'value1, value2' : 'value'}
+                                    value={condition.operator === 'in' ? condition.values.join(', ') : condition.values[0] ?? ''}
+                                    onChange={(e) => updateCondition(condition.id, {
+                                        values: condition.operator === 'in'
+                                            ? e.target.value.split(',').map(v => v.trim())
+                                            : [e.target.value],
+                                    })}
+                                    disabled={disabled}
+                                    className={`${inputClassName} flex-grow min-w-24`}
+                                    aria-label="Value"
+                                />
+                                <datalist id={listId}>
+                                    {info?.values.map(value => <option key={value} value={value} />)}
+                                </datalist>
+                            </>
+                        )}
+                        <button
+                            onClick={() => removeCondition(condition.id)}
+                            disabled={disabled}
+                            className="p-1 text-red-400 hover:text-red-300 rounded-full"
+                            aria-label="Remove condition"
+                            title="Remove condition"
+                        >
+                            <TrashIcon />
+                        </button>
+                    </div>
+                );
+            })}
+            <button onClick={addCondition} disabled={disabled} className="flex items-center text-sm text-gem-blue hover:text-blue-400" title="Add a filter condition">
+                <PlusIcon /> <span className="ml-1">Add Condition</span>
+            </button>
+            {expression && (
+                <p className="text-xs font-mono text-gem-offwhite/60 break-all" title="Filter expression sent with the query">{expression}</p>
+            )}
+        </div>
+    );
+};
+
+export default MetadataFilterBuilder;
@@ -0,0 +1,140 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { Document, MetadataFieldSchema, MetadataValueType, RagStore } from '../types';
+import { inferMetadataSchema } from '../services/metadataSchema';
+import TagInput from './TagInput';
+import TrashIcon from './icons/TrashIcon';
+import PlusIcon from './icons/PlusIcon';
+
+interface MetadataSchemaEditorProps {
+    isOpen: boolean;
+    store: RagStore;
+    schema: MetadataFieldSchema[];
+    // Used to start a schema from the keys already in use.
+    documents: Document[];
+    onSave: (schema: MetadataFieldSchema[]) => void;
+    onClose: () => void;
+}
+
+const VALUE_TYPES: { id: MetadataValueType, label: string }[] = [
+    { id: 'string', label: 'Text' },
+    { id: 'stringList', label: 'List' },
+    { id: 'numeric', label: 'Number' },
+];
+
+const inputClassName = 'bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue';
+
+const emptyField = (): MetadataFieldSchema => ({ key: '', valueType: 'string', required: false, allowedValues: [] });
+
+const MetadataSchemaEditor: React.FC<MetadataSchemaEditorProps> = ({ isOpen, store, schema, documents, onSave, onClose }) => {
+    const [fields, setFields] = useState<MetadataFieldSchema[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setFields(schema.length > 0 ? schema : [emptyField()]);
+        setError(null);
+    }, [isOpen, schema]);
+
+    if (!isOpen) return null;
+
+    const updateField = (index: number, changes: Partial<MetadataFieldSchema>) => {
+        setFields(prev => prev.map((field, i) => i === index ? { ...field, ...changes } : field));
+    };
+
+    const handleInfer = () => {
+        const known = new Set(fields.map(field => field.key.trim()));
+        setFields(prev => [...prev.filter(field => field.key.trim()), ...inferMetadataSchema(documents).filter(field => !known.has(field.key))]);
+    };
+
+    const handleSave = () => {
+        const kept = fields
+            .map(field => ({
+                ...field,
+                key: field.key.trim(),
+                allowedValues: field.valueType === 'numeric' ? [] : field.allowedValues,
+            }))
+            .filter(field => field.key);
+        const keys = kept.map(field => field.key);
+        const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+        if (duplicate) {
+            setError(`"${duplicate}" is defined more than once.`);
+            return;
+        }
+        onSave(kept);
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="schema-title">
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <h3 id="schema-title" className="text-xl font-bold mb-1">Metadata Schema</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">
+                    The keys documents in <span className="font-semibold">{store.displayName}</span> are expected to have. Upload and edit
+                    forms are built from it and checked against it. Saved in this browser only.
+                </p>
+
+                <div className="grid grid-cols-[1fr_6rem_4.5rem_1.5fr_2rem] gap-2 items-center text-sm">
+                    <span className="text-xs text-gem-offwhite/60">Key</span>
+                    <span className="text-xs text-gem-offwhite/60">Type</span>
+                    <span className="text-xs text-gem-offwhite/60">Required</span>
+                    <span className="text-xs text-gem-offwhite/60">Allowed values (empty for any)</span>
+                    <span />
+                    {fields.map((field, index) => (
+                        <React.Fragment key={index}>
+                            <input type="text" placeholder="Key" value={field.key} onChange={(e) => updateField(index, { key: e.target.value })} className={`min-w-0 ${inputClassName}`} />
+                            <select
+                                value={field.valueType}
+                                onChange={(e) => updateField(index, { valueType: e.target.value as MetadataValueType })}
+                                className={`${inputClassName} px-1`}
+                                aria-label={`Type of ${field.key || 'field'}`}
+                            >
+                                {VALUE_TYPES.map(type => <option key={type.id} value={type.id}>{type.label}</option>)}
+                            </select>
+                            <input
+                                type="checkbox"
+                                checked={field.required}
+                                onChange={(e) => updateField(index, { required: e.target.checked })}
+                                className="h-4 w-4 accent-gem-blue justify-self-center"
+                                aria-label={`${field.key || 'Field'} is required`}
+                            />
+                            {field.valueType === 'numeric' ? (
+                                <span className="text-xs text-gem-offwhite/50">Any number</span>
+                            ) : (
+                                <TagInput values={field.allowedValues} onChange={allowedValues => updateField(index, { allowedValues })} placeholder="Any value" />
+                            )}
+                            <button onClick={() => setFields(prev => prev.filter((_, i) => i !== index))} className="p-1 text-red-400 hover:text-red-300 rounded-full" aria-label="Remove field" title="Remove field">
+                                <TrashIcon />
+                            </button>
+                        </React.Fragment>
+                    ))}
+                </div>
+
+                <div className="flex space-x-4 mt-3">
+                    <button onClick={() => setFields(prev => [...prev, emptyField()])} className="flex items-center text-sm text-gem-blue hover:text-blue-400" title="Add another key">
+                        <PlusIcon /> <span className="ml-1">Add Field</span>
+                    </button>
+                    <button onClick={handleInfer} disabled={documents.length === 0} className="text-sm text-gem-blue hover:text-blue-400 disabled:opacity-50" title="Add the keys and types already used by this store's documents">
+                        Add keys from documents
+                    </button>
+                </div>
+
+                {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+                <div className="flex justify-end space-x-2 mt-6">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Discard the changes">
+                        Cancel
+                    </button>
+                    <button type="button" onClick={handleSave} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Save the schema for this store">
+                        Save
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default MetadataSchemaEditor;
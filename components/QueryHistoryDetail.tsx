@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { ChatMessage, Document, QueryHistoryEntry } from '../types';
+import { diffRetrievedChunks } from '../services/compare';
+import AnswerCard from './AnswerCard';
+import ChunkDiffView from './ChunkDiffView';
+import Spinner from './Spinner';
+
+interface QueryHistoryDetailProps {
+    entry: QueryHistoryEntry | null;
+    rerun?: QueryHistoryEntry;
+    isRerunning: boolean;
+    rerunError?: string;
+    canRerun: boolean;
+    documents: Document[];
+    storeDisplayName: (storeName?: string) => string | undefined;
+    onRerun: () => void;
+    onShowDocument: (docName: string) => void;
+    onClose: () => void;
+}
+
+const toMessage = (entry: QueryHistoryEntry): ChatMessage => ({
+    role: 'model',
+    parts: [{ text: entry.result.text }],
+    groundingChunks: entry.result.groundingChunks,
+    groundingSupports: entry.result.groundingSupports,
+    aborted: entry.result.aborted,
+    settings: entry.settings,
+    answeredBy: entry.result.answeredBy,
+    usage: entry.result.usage,
+    latencyMs: entry.result.latencyMs,
+});
+
+const QueryHistoryDetail: React.FC<QueryHistoryDetailProps> = ({ entry, rerun, isRerunning, rerunError, canRerun, documents, storeDisplayName, onRerun, onShowDocument, onClose }) => {
+    if (!entry) return null;
+    const showRerun = isRerunning || rerun || rerunError;
+    const answer = (item: QueryHistoryEntry) => (
+        <AnswerCard
+            message={toMessage(item)}
+            isStreaming={false}
+            isBusy={isRerunning}
+            documents={documents}
+            storeDisplayName={storeDisplayName}
+            onShowDocument={onShowDocument}
+        />
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="history-entry-title" onClick={onClose}>
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-5xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <h3 id="history-entry-title" className="text-xl font-bold mb-1 break-words">{entry.query}</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">
+                    {new Date(entry.timestamp).toLocaleString()} · {entry.stores.map(store => store.displayName).join(', ')}
+                    {entry.metadataFilter && <> · filter <code className="text-xs">{entry.metadataFilter}</code></>}
+                </p>
+
+                <div className={`grid gap-4 ${showRerun ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                    <div className="min-w-0">
+                        {showRerun && <h4 className="font-semibold text-gem-teal mb-2">Then</h4>}
+                        {answer(entry)}
+                    </div>
+                    {showRerun && (
+                        <div className="min-w-0">
+                            <h4 className="font-semibold text-gem-teal mb-2">Now</h4>
+                            {rerunError ? (
+                                <p className="p-3 rounded-md bg-red-900/30 text-red-300 text-sm">{rerunError}</p>
+                            ) : isRerunning || !rerun ? (
+                                <div className="flex items-center justify-center p-4"><Spinner /></div>
+                            ) : answer(rerun)}
+                        </div>
+                    )}
+                </div>
+
+                {rerun && (
+                    <div className="mt-6">
+                        <ChunkDiffView diff={diffRetrievedChunks(entry.result.groundingChunks, rerun.result.groundingChunks)} labels={['then', 'now']} />
+                    </div>
+                )}
+
+                <div className="flex justify-between items-center mt-6">
+                    <p className="text-xs text-gem-offwhite/50">
+                        Re-runs ask the question on its own, with the settings it was first asked with.
+                    </p>
+                    <div className="flex space-x-2">
+                        <button
+                            onClick={onRerun}
+                            disabled={isRerunning || !canRerun}
+                            className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors disabled:opacity-50"
+                            title={canRerun ? 'Run again against the current store contents' : 'A store this query searched no longer exists'}
+                        >
+                            Re-run
+                        </button>
+                        <button onClick={onClose} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Close">
+                            Close
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default QueryHistoryDetail;
@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { QueryHistoryEntry, RagStore } from '../types';
+import { searchHistory } from '../services/queryHistory';
+
+interface QueryHistoryPanelProps {
+    entries: QueryHistoryEntry[];
+    // The stores that exist now; entries whose stores are gone can't be re-run.
+    stores: RagStore[];
+    selectedEntryId?: string;
+    isBusy: boolean;
+    onView: (entry: QueryHistoryEntry) => void;
+    onRerun: (entry: QueryHistoryEntry) => void;
+    onTogglePin: (entry: QueryHistoryEntry) => void;
+    onDelete: (entry: QueryHistoryEntry) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+export const canRerun = (entry: QueryHistoryEntry, stores: RagStore[]) =>
+    entry.stores.every(store => stores.some(s => s.name === store.name));
+
+const QueryHistoryPanel: React.FC<QueryHistoryPanelProps> = ({ entries, stores, selectedEntryId, isBusy, onView, onRerun, onTogglePin, onDelete, onClear, onClose }) => {
+    const [search, setSearch] = useState('');
+    const [storeFilter, setStoreFilter] = useState('');
+
+    // Every store that appears in the history, including ones deleted since.
+    const historyStores = new Map<string, string>();
+    entries.forEach(entry => entry.stores.forEach(store => historyStores.set(store.name, store.displayName)));
+    const visible = searchHistory(entries, search, storeFilter || undefined);
+
+    return (
+        <aside className="flex flex-col h-full w-72 shrink-0 border-l border-gem-mist pl-3">
+            <div className="flex justify-between items-center mb-2">
+                <h3 className="font-semibold">History</h3>
+                <div className="flex items-center space-x-2 text-sm">
+                    <button
+                        onClick={onClear}
+                        disabled={entries.every(entry => entry.pinned)}
+                        className="text-gem-offwhite/70 hover:text-gem-offwhite disabled:opacity-50"
+                        title="Delete every entry that isn't pinned"
+                    >
+                        Clear
+                    </button>
+                    <button onClick={onClose} className="text-gem-offwhite/70 hover:text-gem-offwhite" title="Hide history">✕</button>
+                </div>
+            </div>
+            <input
+                type="search"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search queries and answers..."
+                className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 mb-2 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue"
+            />
+            <select
+                value={storeFilter}
+                onChange={(e) => setStoreFilter(e.target.value)}
+                className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 mb-2 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                aria-label="Filter by store"
+            >
+                <option value="">All stores</option>
+                {[...historyStores.entries()].map(([name, displayName]) => (
+                    <option key={name} value={name}>{displayName || name.split('/').pop()}</option>
+                ))}
+            </select>
+
+            <ul className="flex-grow overflow-y-auto space-y-1">
+                {visible.length === 0 && (
+                    <li className="text-center text-sm text-gem-offwhite/60 py-6">
+                        {entries.length === 0 ? 'Queries you ask will show up here.' : 'No matching queries.'}
+                    </li>
+                )}
+                {visible.map(entry => {
+                    const rerunnable = canRerun(entry, stores);
+                    return (
+                        <li
+                            key={entry.id}
+                            className={`group p-2 rounded-md text-sm cursor-pointer ${entry.id === selectedEntryId ? 'bg-gem-blue/30' : 'bg-gem-mist/40 hover:bg-gem-mist/70'}`}
+                            onClick={() => onView(entry)}
+                        >
+                            <div className="flex items-start gap-1">
+                                <p className="flex-grow line-clamp-2 break-words" title={entry.query}>{entry.query}</p>
+                                <button
+                                    onClick={(e) => { e.stopPropagation(); onTogglePin(entry); }}
+                                    className={`shrink-0 ${entry.pinned ? 'text-gem-teal' : 'text-gem-offwhite/40 opacity-0 group-hover:opacity-100'}`}
+                                    title={entry.pinned ? 'Unpin' : 'Pin, so it is kept when clearing'}
+                                    aria-pressed={entry.pinned}
+                                >
+                                    {entry.pinned ? '★' : '☆'}
+                                </button>
+                            </div>
+                            <div className="flex items-center justify-between mt-1 text-xs text-gem-offwhite/60">
+                                <span className="truncate" title={entry.stores.map(store => store.displayName).join(', ')}>
+                                    {new Date(entry.timestamp).toLocaleString()} · {entry.stores.map(store => store.displayName).join(', ')}
+                                </span>
+                                <span className="flex items-center space-x-2 shrink-0 ml-2 opacity-0 group-hover:opacity-100">
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onRerun(entry); }}
+                                        disabled={isBusy || !rerunnable}
+                                        className="hover:text-gem-offwhite disabled:opacity-50"
+                                        title={rerunnable ? 'Run again against the current store contents' : 'A store this query searched no longer exists'}
+                                    >
+                                        Re-run
+                                    </button>
+                                    <button
+                                        onClick={(e) => { e.stopPropagation(); onDelete(entry); }}
+                                        className="hover:text-red-400"
+                                        title="Delete from history"
+                                    >
+                                        Delete
+                                    </button>
+                                </span>
+                            </div>
+                        </li>
+                    );
+                })}
+            </ul>
+        </aside>
+    );
+};
+
+export default QueryHistoryPanel;
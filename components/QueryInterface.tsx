@@ -3,91 +3,321 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { RagStore, QueryResult, Document } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { RagStore, Document, ChatThread, MetadataFilter, ModelSettings, ExportedSession } from '../types';
+import { buildMetadataFilter } from '../services/metadataFilter';
 import Spinner from './Spinner';
 import SendIcon from './icons/SendIcon';
-import DataModelDiagram from './DataModelDiagram';
+import StoreDetails from './StoreDetails';
+import MetadataFilterBuilder from './MetadataFilterBuilder';
+import AnswerCard from './AnswerCard';
+import SettingsPanel from './SettingsPanel';
+import SettingsIcon from './icons/SettingsIcon';
+import UploadIcon from './icons/UploadIcon';
 
 interface QueryInterfaceProps {
     selectedStore: RagStore | null;
+    stores: RagStore[];
+    searchStores: RagStore[];
     documents: Document[];
+    // Whether the store has documents beyond the loaded pages.
+    hasMoreDocuments: boolean;
     isLoading: boolean;
-    result: QueryResult | null;
-    onQuery: (query: string) => void;
+    threads: ChatThread[];
+    activeThread: ChatThread | null;
+    modelSettings: ModelSettings;
+    onQuery: (query: string, metadataFilter?: string) => void;
+    onStopQuery: () => void;
+    onShowDocument: (docName: string) => void;
+    onPreviewDocument: (document: Document, chunks: string[], focusIndex: number) => void;
+    onSaveSettings: (settings: ModelSettings) => void;
+    onSelectThread: (threadId: string) => void;
+    onClearThread: () => void;
+    onBranchThread: (messageIndex: number) => void;
+    // An imported session replaces the live conversation with a read-only replay.
+    importedSession: ExportedSession | null;
+    onExportSession: (format: 'json' | 'md') => void;
+    onImportSession: (file: File) => void;
+    onCloseImportedSession: () => void;
 }
 
-const QueryInterface: React.FC<QueryInterfaceProps> = ({ selectedStore, documents, isLoading, result, onQuery }) => {
+const QueryInterface: React.FC<QueryInterfaceProps> = ({ selectedStore, stores, searchStores, documents, hasMoreDocuments, isLoading, threads, activeThread, modelSettings, onQuery, onStopQuery, onShowDocument, onPreviewDocument, onSaveSettings, onSelectThread, onClearThread, onBranchThread, importedSession, onExportSession, onImportSession, onCloseImportedSession }) => {
     const [query, setQuery] = useState('');
+    const [filter, setFilter] = useState<MetadataFilter>({ combinator: 'AND', conditions: [] });
+    const [isFilterOpen, setIsFilterOpen] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+    const messages = importedSession ? importedSession.thread.messages : activeThread?.messages || [];
+    const viewDocuments = importedSession ? importedSession.documents : documents;
+    const lastMessage = messages[messages.length - 1];
+    const isStreaming = isLoading && lastMessage?.role === 'model';
+
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [messages.length, isLoading, lastMessage]);
+
+    // Metadata keys differ between stores, so a filter never carries over.
+    useEffect(() => {
+        setFilter({ combinator: 'AND', conditions: [] });
+        setIsFilterOpen(false);
+    }, [selectedStore?.name]);
+
+    const metadataFilter = buildMetadataFilter(filter);
+
+    const storeDisplayName = (storeName?: string) =>
+        (importedSession ? importedSession.searchStores : stores).find(s => s.name === storeName)?.displayName || storeName?.split('/').pop();
 
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (query.trim()) {
-            onQuery(query);
+            onQuery(query, metadataFilter);
             setQuery('');
         }
     };
-    
-    if (!selectedStore) {
+
+    const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (file) onImportSession(file);
+    };
+
+    const importInput = (
+        <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportChange} />
+    );
+
+    const importButton = (
+        <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isLoading}
+            className="px-3 py-1 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Open an exported session (JSON) read-only"
+        >
+            Import
+        </button>
+    );
+
+    if (!selectedStore && !importedSession) {
         return (
             <div className="flex flex-col h-full items-center justify-center text-center text-gem-offwhite/60">
                  <p className="text-lg">Select a RAG Store</p>
                 <p>to start asking questions.</p>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    className="mt-4 flex items-center space-x-2 text-sm text-gem-blue hover:text-blue-400"
+                    title="Open an exported session (JSON) read-only"
+                >
+                    <UploadIcon /> <span>or import a saved session</span>
+                </button>
+                {importInput}
+            </div>
+        );
+    }
+
+    if (importedSession) {
+        const { thread, store, searchStores: sessionStores, modelSettings: sessionSettings, exportedAt } = importedSession;
+        return (
+            <div className="flex flex-col h-full">
+                <div className="flex justify-between items-center mb-4 gap-2">
+                    <h2 className="text-xl font-bold truncate" title={thread.title}>Imported: {thread.title || 'Session'}</h2>
+                    <div className="flex items-center space-x-2 shrink-0">
+                        {importButton}
+                        <button
+                            onClick={onCloseImportedSession}
+                            className="px-3 py-1 rounded-md bg-gem-blue hover:bg-blue-500 text-white text-sm transition-colors"
+                            title="Close the imported session and go back to the live conversation"
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+                {importInput}
+                <p className="mb-4 p-2 rounded-md bg-gem-slate/50 border border-gem-mist/50 text-xs text-gem-offwhite/70">
+                    Read-only. Exported {new Date(exportedAt).toLocaleString()} from {sessionStores.map(s => s.displayName).join(', ') || store.displayName},
+                    {' '}{importedSession.documents.length} documents, model {sessionSettings.model}.
+                </p>
+                <div className="flex-grow overflow-y-auto pr-2 space-y-6">
+                    {messages.map((message, index) => (
+                        message.role === 'user' ? (
+                            <div key={`imported-${index}`} className="flex flex-col items-end">
+                                <p className="bg-gem-blue text-white px-4 py-2 rounded-lg max-w-[80%] whitespace-pre-wrap">{message.parts.map(p => p.text).join('')}</p>
+                                {message.metadataFilter && (
+                                    <p className="mt-1 text-xs font-mono text-gem-offwhite/60 max-w-[80%] break-all" title="Metadata filter applied to this query">Filter: {message.metadataFilter}</p>
+                                )}
+                            </div>
+                        ) : (
+                            <AnswerCard
+                                key={`imported-${index}`}
+                                message={message}
+                                isStreaming={false}
+                                isBusy={false}
+                                documents={viewDocuments}
+                                storeDisplayName={storeDisplayName}
+                                onShowDocument={onShowDocument}
+                                onPreviewDocument={onPreviewDocument}
+                            />
+                        )
+                    ))}
+                </div>
             </div>
         );
     }
 
     return (
         <div className="flex flex-col h-full">
-            <h2 className="text-xl font-bold mb-4">Query: {selectedStore.displayName}</h2>
+            <div className="flex justify-between items-center mb-4 gap-2">
+                <h2 className="text-xl font-bold truncate" title={searchStores.map(s => s.displayName).join(', ')}>
+                    Query: {selectedStore.displayName}
+                    {searchStores.length > 1 && (
+                        <span className="ml-2 text-sm font-normal text-gem-offwhite/70">
+                            + {searchStores.length - 1} more {searchStores.length > 2 ? 'stores' : 'store'}
+                        </span>
+                    )}
+                </h2>
+                <div className="flex items-center space-x-2 shrink-0">
+                    {threads.length > 0 && (
+                        <>
+                            <label htmlFor="thread-select" className="sr-only">Conversation thread</label>
+                            <select
+                                id="thread-select"
+                                value={activeThread?.id}
+                                onChange={(e) => onSelectThread(e.target.value)}
+                                disabled={isLoading}
+                                className="max-w-48 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue"
+                                title="Switch conversation thread"
+                            >
+                                {threads.map(thread => (
+                                    <option key={thread.id} value={thread.id}>{thread.title || 'New thread'}</option>
+                                ))}
+                            </select>
+                            <button
+                                onClick={onClearThread}
+                                disabled={isLoading || messages.length === 0}
+                                className="px-3 py-1 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Clear this conversation"
+                            >
+                                Clear
+                            </button>
+                        </>
+                    )}
+                    {messages.length > 0 && (
+                        <>
+                            <button
+                                onClick={() => onExportSession('json')}
+                                disabled={isLoading}
+                                className="px-3 py-1 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Download this conversation with its sources and settings as JSON, to import later"
+                            >
+                                JSON
+                            </button>
+                            <button
+                                onClick={() => onExportSession('md')}
+                                disabled={isLoading}
+                                className="px-3 py-1 rounded-md bg-gem-mist hover:bg-gem-mist/70 text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                title="Download this conversation as Markdown with numbered citations"
+                            >
+                                Markdown
+                            </button>
+                        </>
+                    )}
+                    {importButton}
+                    <button
+                        onClick={() => setIsSettingsOpen(true)}
+                        className="p-2 bg-gem-mist hover:bg-gem-mist/70 rounded-full text-white transition-colors"
+                        aria-label="Model settings"
+                        title={`Model settings (${modelSettings.model})`}
+                    >
+                        <SettingsIcon />
+                    </button>
+                </div>
+            </div>
+
+            {importInput}
+            <SettingsPanel
+                isOpen={isSettingsOpen}
+                store={selectedStore}
+                settings={modelSettings}
+                onSave={onSaveSettings}
+                onClose={() => setIsSettingsOpen(false)}
+            />
+
             <div className="flex-grow overflow-y-auto mb-4 pr-2 space-y-6">
-                 {isLoading && (
+                {messages.map((message, index) => (
+                    message.role === 'user' ? (
+                        <div key={`${activeThread?.id}-${index}`} className="flex flex-col items-end">
+                            <p className="bg-gem-blue text-white px-4 py-2 rounded-lg max-w-[80%] whitespace-pre-wrap">{message.parts.map(p => p.text).join('')}</p>
+                            {message.storeNames && message.storeNames.length > 1 && (
+                                <p className="mt-1 text-xs text-gem-offwhite/60 max-w-[80%]">Searched: {message.storeNames.map(storeDisplayName).join(', ')}</p>
+                            )}
+                            {message.metadataFilter && (
+                                <p className="mt-1 text-xs font-mono text-gem-offwhite/60 max-w-[80%] break-all" title="Metadata filter applied to this query">Filter: {message.metadataFilter}</p>
+                            )}
+                        </div>
+                    ) : (
+                        <AnswerCard
+                            key={`${activeThread?.id}-${index}`}
+                            message={message}
+                            isStreaming={isStreaming && index === messages.length - 1}
+                            isBusy={isLoading}
+                            documents={documents}
+                            storeDisplayName={storeDisplayName}
+                            onShowDocument={onShowDocument}
+                            onPreviewDocument={onPreviewDocument}
+                            onBranch={() => onBranchThread(index)}
+                        />
+                    )
+                ))}
+                {isLoading && !isStreaming && (
                     <div className="flex items-center justify-center p-4">
                         <Spinner /> <span className="ml-3">Searching...</span>
                     </div>
                 )}
-                {result && (
-                    <div>
-                        <div className="bg-gem-mist p-4 rounded-lg">
-                            <h3 className="font-semibold text-gem-teal mb-2">Answer</h3>
-                            <p className="whitespace-pre-wrap">{result.text}</p>
-                        </div>
-                        {result.groundingChunks.length > 0 && (
-                             <div className="mt-4">
-                                <h3 className="font-semibold text-gem-teal mb-2">Sources</h3>
-                                <div className="space-y-2">
-                                {result.groundingChunks.map((chunk, index) => (
-                                    chunk.retrievedContext?.text && (
-                                        <details key={index} className="bg-gem-mist/50 p-3 rounded-lg text-sm">
-                                            <summary className="cursor-pointer font-medium">Source Chunk {index + 1}</summary>
-                                            <p className="mt-2 text-gem-offwhite/80">{chunk.retrievedContext.text}</p>
-                                        </details>
-                                    )
-                                ))}
-                                </div>
-                            </div>
-                        )}
-                    </div>
-                )}
-                 {!result && !isLoading && (
-                    <DataModelDiagram store={selectedStore} documents={documents} />
+                {messages.length === 0 && !isLoading && (
+                    <StoreDetails
+                        store={stores.find(store => store.name === selectedStore.name) ?? selectedStore}
+                        documents={documents}
+                        hasMoreDocuments={hasMoreDocuments}
+                        onShowDocument={onShowDocument}
+                    />
                 )}
+                <div ref={messagesEndRef} />
             </div>
+            {isFilterOpen && (
+                <div className="mb-3 p-3 bg-gem-slate/50 border border-gem-mist/50 rounded-lg max-h-64 overflow-y-auto">
+                    <h3 className="text-sm font-semibold text-gem-teal mb-2">Metadata Filter</h3>
+                    <MetadataFilterBuilder documents={documents} filter={filter} onChange={setFilter} disabled={isLoading} />
+                </div>
+            )}
             <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+                <button
+                    type="button"
+                    onClick={() => setIsFilterOpen(open => !open)}
+                    className={`px-3 py-2 rounded-full text-sm transition-colors ${metadataFilter ? 'bg-gem-teal text-white' : 'bg-gem-mist hover:bg-gem-mist/70'}`}
+                    aria-expanded={isFilterOpen}
+                    title={metadataFilter ? `Filter: ${metadataFilter}` : 'Filter by document metadata'}
+                >
+                    Filter{metadataFilter ? ` (${filter.conditions.length})` : ''}
+                </button>
                 <input
                     type="text"
                     value={query}
                     onChange={(e) => setQuery(e.target.value)}
-                    placeholder="Ask a question..."
+                    placeholder={messages.length > 0 ? "Ask a follow-up question..." : "Ask a question..."}
                     className="flex-grow bg-gem-mist border border-gem-mist/50 rounded-full py-2 px-4 focus:outline-none focus:ring-2 focus:ring-gem-blue"
                     disabled={isLoading}
                 />
-                <button type="submit" disabled={isLoading || !query.trim()} className="p-3 bg-gem-blue rounded-full text-white disabled:bg-gem-mist transition-colors" title="Send query">
-                    <SendIcon />
-                </button>
+                {isLoading ? (
+                    <button type="button" onClick={onStopQuery} className="px-4 py-2 bg-red-600 hover:bg-red-500 rounded-full text-white transition-colors" title="Stop generating the answer">
+                        Stop
+                    </button>
+                ) : (
+                    <button type="submit" disabled={!query.trim()} className="p-3 bg-gem-blue rounded-full text-white disabled:bg-gem-mist transition-colors" title="Send query">
+                        <SendIcon />
+                    </button>
+                )}
             </form>
         </div>
     );
 };
 
-export default QueryInterface;
\ No newline at end of file
+export default QueryInterface;
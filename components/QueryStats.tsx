@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { TokenUsage } from '../types';
+import { estimateCost, formatCost } from '../services/telemetry';
+
+interface QueryStatsProps {
+    usage?: TokenUsage;
+    latencyMs?: number;
+    // Used to estimate the cost; omitted, no cost is shown.
+    model?: string;
+}
+
+const formatLatency = (ms: number) => ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+
+const USAGE_PARTS: { field: keyof TokenUsage, label: string }[] = [
+    { field: 'promptTokens', label: 'prompt' },
+    { field: 'toolUsePromptTokens', label: 'retrieved' },
+    { field: 'candidatesTokens', label: 'output' },
+    { field: 'thoughtsTokens', label: 'thinking' },
+];
+
+const QueryStats: React.FC<QueryStatsProps> = ({ usage, latencyMs, model }) => {
+    if (latencyMs === undefined && !usage) return null;
+    const breakdown = USAGE_PARTS
+        .filter(part => usage?.[part.field] !== undefined)
+        .map(part => `${usage[part.field].toLocaleString()} ${part.label}`)
+        .join(' · ');
+    const cost = model ? estimateCost(model, usage) : undefined;
+
+    return (
+        <p className="text-xs text-gem-offwhite/60 flex flex-wrap gap-x-3">
+            {latencyMs !== undefined && <span title="Time from sending the query to the end of the answer">{formatLatency(latencyMs)}</span>}
+            {usage?.totalTokens !== undefined && (
+                <span title={breakdown}>{usage.totalTokens.toLocaleString()} tokens{breakdown && ` (${breakdown})`}</span>
+            )}
+            {cost !== undefined && <span title={`Estimated from list prices for ${model}`}>~{formatCost(cost)}</span>}
+        </p>
+    );
+};
+
+export default QueryStats;
@@ -4,9 +4,11 @@
 */
 import React, { useState } from 'react';
 import { RagStore } from '../types';
+import { BackendId, RetrievalBackend } from '../services/retrievalBackend';
 import Spinner from './Spinner';
 import PlusIcon from './icons/PlusIcon';
 import TrashIcon from './icons/TrashIcon';
+import CopyIcon from './icons/CopyIcon';
 import RefreshIcon from './icons/RefreshIcon';
 import InfoIcon from './icons/InfoIcon';
 import InfoModal from './InfoModal';
@@ -14,14 +16,23 @@ import InfoModal from './InfoModal';
 interface RagStoreListProps {
     stores: RagStore[];
     selectedStore: RagStore | null;
+    searchStoreNames: string[];
     isLoading: boolean;
     onCreate: (displayName: string) => void;
     onSelect: (store: RagStore) => void;
+    onToggleSearchStore: (storeName: string) => void;
     onDelete: (storeName: string) => void;
+    onClone: (store: RagStore) => void;
+    // False while another clone or move is running.
+    canClone: boolean;
     onRefresh: () => void;
+    backends: RetrievalBackend[];
+    backendId: BackendId;
+    canSwitchBackend: boolean;
+    onSelectBackend: (id: BackendId) => void;
 }
 
-const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLoading, onCreate, onSelect, onDelete, onRefresh }) => {
+const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, searchStoreNames, isLoading, onCreate, onSelect, onToggleSearchStore, onDelete, onClone, canClone, onRefresh, backends, backendId, canSwitchBackend, onSelectBackend }) => {
     const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
     const [isInfoModalOpen, setIsInfoModalOpen] = useState(false);
     const [newStoreName, setNewStoreName] = useState('');
@@ -78,6 +89,22 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                 </div>
             </div>
 
+            <div className="mb-4">
+                <label htmlFor="retrieval-backend" className="block text-xs text-gem-offwhite/70 mb-1">Backend</label>
+                <select
+                    id="retrieval-backend"
+                    value={backendId}
+                    onChange={(e) => onSelectBackend(e.target.value as BackendId)}
+                    disabled={!canSwitchBackend}
+                    className="w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue disabled:opacity-50"
+                    title={canSwitchBackend
+                        ? backends.find(b => b.id === backendId)?.description
+                        : 'Wait for uploads to finish before switching backends'}
+                >
+                    {backends.map(b => <option key={b.id} value={b.id}>{b.label}</option>)}
+                </select>
+            </div>
+
             <InfoModal isOpen={isInfoModalOpen} onClose={() => setIsInfoModalOpen(false)} />
 
             {isCreateModalOpen && (
@@ -130,6 +157,19 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                 <ul className="space-y-2 overflow-y-auto">
                     {stores.map((store) => (
                         <li key={store.name} className="flex items-center justify-between group">
+                            <input
+                                type="checkbox"
+                                checked={selectedStore?.name === store.name || searchStoreNames.includes(store.name)}
+                                disabled={!selectedStore || selectedStore.name === store.name}
+                                onChange={() => onToggleSearchStore(store.name)}
+                                className="mr-2 h-4 w-4 shrink-0 accent-gem-blue disabled:opacity-50"
+                                aria-label={`Include ${store.displayName} in queries`}
+                                title={!selectedStore
+                                    ? 'Select a store first'
+                                    : selectedStore.name === store.name
+                                        ? 'The selected store is always searched'
+                                        : `Also search ${store.displayName}`}
+                            />
                             <button
                                 onClick={() => onSelect(store)}
                                 className={`w-full text-left p-3 rounded-md transition-colors ${
@@ -149,6 +189,15 @@ const RagStoreList: React.FC<RagStoreListProps> = ({ stores, selectedStore, isLo
                                     </span>
                                 </div>
                             </button>
+                            <button
+                                onClick={(e) => { e.stopPropagation(); onClone(store); }}
+                                disabled={!canClone}
+                                className="ml-2 p-2 text-gem-offwhite/70 hover:text-gem-offwhite rounded-full opacity-0 group-hover:opacity-100 transition-opacity disabled:cursor-not-allowed"
+                                aria-label={`Clone ${store.displayName}`}
+                                title={canClone ? `Copy ${store.displayName} and its documents into a new store` : 'Wait for the running clone or move to finish'}
+                            >
+                               <CopyIcon />
+                            </button>
                             <button 
                                 onClick={(e) => { e.stopPropagation(); onDelete(store.name); }}
                                 className="ml-2 p-2 text-red-400 hover:text-red-300 rounded-full opacity-0 group-hover:opacity-100 transition-opacity"
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { RagStore, ModelSettings, SafetyThreshold } from '../types';
+import { DEFAULT_MODEL_SETTINGS, MODEL_OPTIONS, SAFETY_CATEGORIES, SAFETY_THRESHOLDS } from '../services/modelSettings';
+
+interface SettingsPanelProps {
+    isOpen: boolean;
+    store: RagStore;
+    settings: ModelSettings;
+    onSave: (settings: ModelSettings) => void;
+    onClose: () => void;
+    // Replaces the default note about where the settings are used and kept.
+    description?: string;
+}
+
+type NumericSetting = 'temperature' | 'topP' | 'maxOutputTokens' | 'thinkingBudget';
+
+const NUMERIC_FIELDS: { field: NumericSetting, label: string, min: number, max?: number, step: number, hint: string }[] = [
+    { field: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.1, hint: 'Higher values give more varied answers.' },
+    { field: 'topP', label: 'Top P', min: 0, max: 1, step: 0.05, hint: 'Nucleus sampling cutoff.' },
+    { field: 'maxOutputTokens', label: 'Max output tokens', min: 1, step: 1, hint: 'Upper limit on answer length.' },
+    { field: 'thinkingBudget', label: 'Thinking budget', min: -1, step: 1, hint: '0 turns thinking off, -1 lets the model decide.' },
+];
+
+const inputClassName = "w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, store, settings, onSave, onClose, description }) => {
+    const [draft, setDraft] = useState<ModelSettings>(settings);
+
+    useEffect(() => {
+        if (isOpen) setDraft(settings);
+    }, [isOpen, settings]);
+
+    if (!isOpen) return null;
+
+    const handleNumberChange = (field: NumericSetting, text: string) => {
+        setDraft(prev => ({ ...prev, [field]: text.trim() === '' ? undefined : Number(text) }));
+    };
+
+    const handleThresholdChange = (category: string, threshold: SafetyThreshold) => {
+        setDraft(prev => ({ ...prev, safetyThresholds: { ...prev.safetyThresholds, [category]: threshold } }));
+    };
+
+    const handleSave = (e: React.FormEvent) => {
+        e.preventDefault();
+        onSave({ ...draft, model: draft.model.trim() || DEFAULT_MODEL_SETTINGS.model });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="settings-title">
+            <form onSubmit={handleSave} className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 id="settings-title" className="text-xl font-bold mb-1">Model Settings</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">{description ?? `Used for queries against ${store.displayName}. Saved in this browser.`}</p>
+
+                <div className="mb-4">
+                    <label htmlFor="settings-model" className="block text-sm font-medium text-gem-offwhite/80 mb-1">Model</label>
+                    <input
+                        id="settings-model"
+                        type="text"
+                        list="settings-model-options"
+                        value={draft.model}
+                        onChange={(e) => setDraft(prev => ({ ...prev, model: e.target.value }))}
+                        className={inputClassName}
+                    />
+                    <datalist id="settings-model-options">
+                        {MODEL_OPTIONS.map(model => <option key={model} value={model} />)}
+                    </datalist>
+                </div>
+
+                <div className="mb-4">
+                    <label htmlFor="settings-system-instruction" className="block text-sm font-medium text-gem-offwhite/80 mb-1">System instruction</label>
+                    <textarea
+                        id="settings-system-instruction"
+                        rows={3}
+                        value={draft.systemInstruction}
+                        onChange={(e) => setDraft(prev => ({ ...prev, systemInstruction: e.target.value }))}
+                        placeholder="e.g. Answer only from the retrieved documents."
+                        className={inputClassName}
+                    />
+                </div>
+
+                <div className="mb-4 grid grid-cols-2 gap-3">
+                    {NUMERIC_FIELDS.map(({ field, label, min, max, step, hint }) => (
+                        <div key={field}>
+                            <label htmlFor={`settings-${field}`} className="block text-sm font-medium text-gem-offwhite/80 mb-1">{label}</label>
+                            <input
+                                id={`settings-${field}`}
+                                type="number"
+                                min={min}
+                                max={max}
+                                step={step}
+                                value={draft[field] ?? ''}
+                                onChange={(e) => handleNumberChange(field, e.target.value)}
+                                placeholder="Default"
+                                className={inputClassName}
+                                title={hint}
+                            />
+                        </div>
+                    ))}
+                </div>
+
+                <div className="mb-4">
+                    <h4 className="text-sm font-medium text-gem-offwhite/80 mb-2">Safety thresholds</h4>
+                    <div className="space-y-2">
+                        {SAFETY_CATEGORIES.map(({ category, label }) => (
+                            <div key={category} className="flex items-center justify-between gap-2">
+                                <label htmlFor={`settings-${category}`} className="text-sm">{label}</label>
+                                <select
+                                    id={`settings-${category}`}
+                                    value={draft.safetyThresholds[category] || 'BLOCK_NONE'}
+                                    onChange={(e) => handleThresholdChange(category, e.target.value as SafetyThreshold)}
+                                    className={`${inputClassName} w-56`}
+                                >
+                                    {SAFETY_THRESHOLDS.map(({ threshold, label }) => (
+                                        <option key={threshold} value={threshold}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex justify-between mt-6">
+                    <button type="button" onClick={() => setDraft(DEFAULT_MODEL_SETTINGS)} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Reset all settings to their defaults">
+                        Reset
+                    </button>
+                    <div className="flex space-x-2">
+                        <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Discard changes">
+                            Cancel
+                        </button>
+                        <button type="submit" className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Save settings">
+                            Save
+                        </button>
+                    </div>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default SettingsPanel;
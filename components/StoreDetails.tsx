@@ -0,0 +1,132 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { RagStore, Document, DocumentState } from '../types';
+import { collectMetadataKeys } from '../services/metadataFilter';
+import { formatBytes, formatDateTime } from '../services/formatting';
+import DocumentStateBadge from './DocumentStateBadge';
+import StoreIcon from './icons/StoreIcon';
+
+interface StoreDetailsProps {
+    store: RagStore;
+    // The documents loaded so far; breakdowns only cover these.
+    documents: Document[];
+    hasMoreDocuments: boolean;
+    onShowDocument: (docName: string) => void;
+}
+
+const STATES: DocumentState[] = ['active', 'pending', 'failed'];
+
+const Stat: React.FC<{ label: string, value: string, title?: string }> = ({ label, value, title }) => (
+    <div className="bg-gem-mist/50 rounded-lg p-3 min-w-0">
+        <div className="text-xs text-gem-offwhite/60">{label}</div>
+        <div className="font-semibold truncate" title={title ?? value}>{value}</div>
+    </div>
+);
+
+const StoreDetails: React.FC<StoreDetailsProps> = ({ store, documents, hasMoreDocuments, onShowDocument }) => {
+    // Prefer the store's own counts, which cover every document; fall back to
+    // counting the loaded ones for backends that don't report them.
+    const storeCounts: Record<DocumentState, number | undefined> = {
+        active: store.activeDocumentsCount,
+        pending: store.pendingDocumentsCount,
+        failed: store.failedDocumentsCount,
+        unknown: undefined,
+    };
+    const stateCount = (state: DocumentState) => storeCounts[state] ?? documents.filter(doc => doc.state === state).length;
+    const totalCount = STATES.reduce((total, state) => total + stateCount(state), 0);
+    const needsAttention = documents.filter(doc => doc.state === 'pending' || doc.state === 'failed');
+    const mimeTypes = new Map<string, { count: number, bytes: number }>();
+    documents.forEach(doc => {
+        const type = doc.mimeType || 'unknown';
+        const entry = mimeTypes.get(type) || { count: 0, bytes: 0 };
+        mimeTypes.set(type, { count: entry.count + 1, bytes: entry.bytes + (doc.sizeBytes ?? 0) });
+    });
+    const metadataKeys = collectMetadataKeys(documents);
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <div className="flex items-center space-x-3 mb-1">
+                    <StoreIcon />
+                    <h3 className="text-lg font-bold truncate" title={store.displayName}>{store.displayName}</h3>
+                </div>
+                <p className="text-xs font-mono text-gem-offwhite/60 break-all">{store.name}</p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <Stat label="Documents" value={totalCount.toLocaleString()} />
+                <Stat label="Size" value={formatBytes(store.sizeBytes ?? documents.reduce((total, doc) => total + (doc.sizeBytes ?? 0), 0))} />
+                <Stat label="Created" value={formatDateTime(store.createTime)} />
+                <Stat label="Updated" value={formatDateTime(store.updateTime)} />
+            </div>
+            {store.embeddingModel && <p className="text-sm text-gem-offwhite/70">Embedding model: {store.embeddingModel}</p>}
+
+            <section>
+                <h4 className="font-semibold text-gem-teal mb-2">Indexing</h4>
+                <div className="flex flex-wrap gap-3 text-sm">
+                    {STATES.map(state => (
+                        <span key={state} className="flex items-center gap-1">
+                            <DocumentStateBadge state={state} showActive /> {stateCount(state).toLocaleString()}
+                        </span>
+                    ))}
+                </div>
+                {needsAttention.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-sm max-h-48 overflow-y-auto">
+                        {needsAttention.map(doc => (
+                            <li key={doc.name} className="flex items-center gap-2">
+                                <DocumentStateBadge state={doc.state} />
+                                <button onClick={() => onShowDocument(doc.name)} className="truncate text-left hover:underline" title={`Show ${doc.displayName} in the document list`}>
+                                    {doc.displayName}
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </section>
+
+            {mimeTypes.size > 0 && (
+                <section>
+                    <h4 className="font-semibold text-gem-teal mb-2">File types</h4>
+                    <table className="w-full text-sm">
+                        <tbody>
+                            {[...mimeTypes.entries()].sort((a, b) => b[1].count - a[1].count).map(([type, entry]) => (
+                                <tr key={type} className="border-t border-gem-mist/50">
+                                    <td className="py-1 pr-2 truncate max-w-48" title={type}>{type}</td>
+                                    <td className="py-1 pr-2 text-right">{entry.count.toLocaleString()}</td>
+                                    <td className="py-1 text-right text-gem-offwhite/70">{formatBytes(entry.bytes)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            )}
+
+            {metadataKeys.length > 0 && (
+                <section>
+                    <h4 className="font-semibold text-gem-teal mb-2">Metadata keys</h4>
+                    <ul className="text-sm space-y-1">
+                        {metadataKeys.map(info => (
+                            <li key={info.key} className="flex justify-between gap-2">
+                                <span className="truncate" title={info.key}>{info.key}</span>
+                                <span className="text-gem-offwhite/60 shrink-0">{info.valueType} · {info.values.length} {info.values.length === 1 ? 'value' : 'values'}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {documents.length === 0 ? (
+                <p className="text-sm text-gem-offwhite/60">No documents in this store yet. Upload some, then ask a question about them below.</p>
+            ) : hasMoreDocuments && (
+                <p className="text-xs text-gem-offwhite/50">
+                    File types, metadata keys and the list of documents needing attention cover the {documents.length.toLocaleString()} documents loaded so far.
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default StoreDetails;
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect } from 'react';
+import { ChunkingConfig, RagStore } from '../types';
+import { StoreTransferRequest } from '../services/storeTransfer';
+import ChunkingOptions from './ChunkingOptions';
+
+interface StoreTransferModalProps {
+    isOpen: boolean;
+    // Clones copy a whole store into a new one; moves take the chosen documents.
+    mode: 'clone' | 'move';
+    sourceStore: RagStore;
+    stores: RagStore[];
+    // Unknown for backends that don't report store counts.
+    documentCount?: number;
+    // Whether files missing from this browser are also looked for in the Gemini Files API.
+    searchesFilesApi: boolean;
+    onConfirm: (request: StoreTransferRequest) => void;
+    onClose: () => void;
+}
+
+const NEW_STORE = '';
+
+const inputClassName = "w-full bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-gem-blue";
+
+const StoreTransferModal: React.FC<StoreTransferModalProps> = ({ isOpen, mode, sourceStore, stores, documentCount, searchesFilesApi, onConfirm, onClose }) => {
+    const targets = stores.filter(store => store.name !== sourceStore.name);
+    const [targetStoreName, setTargetStoreName] = useState(NEW_STORE);
+    const [newStoreName, setNewStoreName] = useState('');
+    const [keepOriginals, setKeepOriginals] = useState(false);
+    const [rechunk, setRechunk] = useState(false);
+    const [chunkingConfig, setChunkingConfig] = useState<ChunkingConfig>({});
+    const [files, setFiles] = useState<File[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setTargetStoreName(mode === 'move' && targets.length > 0 ? targets[0].name : NEW_STORE);
+        setNewStoreName(mode === 'clone' ? `${sourceStore.displayName} (copy)` : '');
+        setKeepOriginals(false);
+        setRechunk(mode === 'clone');
+        setChunkingConfig({});
+        setFiles([]);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const isNewStore = targetStoreName === NEW_STORE;
+    const canConfirm = documentCount !== 0 && (!isNewStore || !!newStoreName.trim());
+    const noun = documentCount === undefined ? 'every document' : `${documentCount} ${documentCount === 1 ? 'document' : 'documents'}`;
+
+    const handleConfirm = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!canConfirm) return;
+        onConfirm({
+            targetStoreName: isNewStore ? undefined : targetStoreName,
+            newStoreName: isNewStore ? newStoreName.trim() : undefined,
+            chunkingConfig: rechunk ? chunkingConfig : undefined,
+            deleteSource: mode === 'move' && !keepOriginals,
+            files,
+        });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="store-transfer-title">
+            <form onSubmit={handleConfirm} className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                <h3 id="store-transfer-title" className="text-xl font-bold mb-1">
+                    {mode === 'clone' ? `Clone ${sourceStore.displayName}` : `Move ${noun}`}
+                </h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">
+                    {mode === 'clone'
+                        ? `Creates a new store and uploads ${noun} into it again with their metadata.`
+                        : 'Uploads the selected documents into another store with their metadata.'}
+                </p>
+
+                {mode === 'move' && (
+                    <div className="mb-4">
+                        <label htmlFor="transfer-target" className="block text-sm font-medium text-gem-offwhite/80 mb-1">Target store</label>
+                        <select id="transfer-target" value={targetStoreName} onChange={(e) => setTargetStoreName(e.target.value)} className={inputClassName}>
+                            {targets.map(store => <option key={store.name} value={store.name}>{store.displayName}</option>)}
+                            <option value={NEW_STORE}>New store…</option>
+                        </select>
+                    </div>
+                )}
+                {isNewStore && (
+                    <div className="mb-4">
+                        <label htmlFor="transfer-new-store" className="block text-sm font-medium text-gem-offwhite/80 mb-1">New store name</label>
+                        <input id="transfer-new-store" type="text" value={newStoreName} onChange={(e) => setNewStoreName(e.target.value)} className={inputClassName} autoFocus />
+                    </div>
+                )}
+                {mode === 'move' && (
+                    <label className="flex items-center space-x-2 mb-4 text-sm cursor-pointer">
+                        <input type="checkbox" checked={keepOriginals} onChange={(e) => setKeepOriginals(e.target.checked)} className="h-4 w-4 accent-gem-blue" />
+                        <span>Keep the originals (copy instead of move)</span>
+                    </label>
+                )}
+
+                <div className="mb-4">
+                    <label className="flex items-center space-x-2 mb-2 text-sm cursor-pointer">
+                        <input type="checkbox" checked={rechunk} onChange={(e) => setRechunk(e.target.checked)} className="h-4 w-4 accent-gem-blue" />
+                        <span>Chunk with new settings</span>
+                    </label>
+                    {rechunk
+                        ? <ChunkingOptions storeName={sourceStore.name} value={chunkingConfig} onChange={setChunkingConfig} />
+                        : <p className="text-xs text-gem-offwhite/60">Each document keeps the chunking it was indexed with.</p>}
+                </div>
+
+                <div className="mb-4 text-sm space-y-2">
+                    <p>
+                        Stores don't hand back the files they index, so copies kept in this browser from earlier uploads are
+                        used. Choose the original files for the rest; they are matched to documents by name. Documents without
+                        a file fail and can be retried later.
+                    </p>
+                    {searchesFilesApi && (
+                        <p className="text-xs text-gem-offwhite/60">
+                            Files not found here are also looked for in the Gemini Files API. It only has files uploaded to it
+                            separately, keeps them for 48 hours and lets only some be downloaded, so expect to choose most files.
+                        </p>
+                    )}
+                    <input
+                        type="file"
+                        multiple
+                        onChange={(e) => setFiles(e.target.files ? Array.from<File>(e.target.files) : [])}
+                        className="block w-full text-sm text-gem-offwhite/80 file:mr-3 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-gem-blue file:text-white"
+                    />
+                </div>
+
+                <div className="flex justify-end space-x-2 mt-6">
+                    <button type="button" onClick={onClose} className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors" title="Cancel">
+                        Cancel
+                    </button>
+                    <button
+                        type="submit"
+                        disabled={!canConfirm}
+                        className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors disabled:bg-gem-mist/50 disabled:cursor-not-allowed"
+                        title={mode === 'clone' ? 'Create the store and upload the documents' : 'Upload the documents to the target store'}
+                    >
+                        {mode === 'clone' ? 'Clone' : keepOriginals ? 'Copy' : 'Move'}
+                    </button>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default StoreTransferModal;
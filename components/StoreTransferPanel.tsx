@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState } from 'react';
+import { StoreTransferJob } from '../types';
+import { hasUnfinishedItems } from '../services/storeTransfer';
+import BulkOperationPanel from './BulkOperationPanel';
+
+interface StoreTransferPanelProps {
+    job: StoreTransferJob | null;
+    isRunning: boolean;
+    // False when the job was started on a different backend than the active one.
+    canResume: boolean;
+    onResume: (files: File[]) => void;
+    onCancel: () => void;
+    onDismiss: () => void;
+}
+
+const StoreTransferPanel: React.FC<StoreTransferPanelProps> = ({ job, isRunning, canResume, onResume, onCancel, onDismiss }) => {
+    const [files, setFiles] = useState<File[]>([]);
+
+    if (!job) return null;
+
+    const handleResume = () => {
+        onResume(files);
+        setFiles([]);
+    };
+
+    return (
+        <div>
+            <BulkOperationPanel
+                operation={{ label: job.label, storeName: job.targetStore.name, items: job.items, isRunning }}
+                onCancel={onCancel}
+                onDismiss={onDismiss}
+            />
+            {!isRunning && hasUnfinishedItems(job) && (
+                <div className="-mt-2 mb-4 p-3 bg-gem-mist/40 rounded-b-md text-sm space-y-2">
+                    {canResume ? (
+                        <>
+                            <p className="text-xs text-gem-offwhite/70">Choose files for documents that had none, then resume the rest.</p>
+                            <input
+                                type="file"
+                                multiple
+                                onChange={(e) => setFiles(e.target.files ? Array.from<File>(e.target.files) : [])}
+                                className="block w-full text-xs text-gem-offwhite/80 file:mr-3 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-gem-blue file:text-white"
+                            />
+                            <button onClick={handleResume} className="px-3 py-1 rounded-md bg-gem-blue hover:bg-blue-500 text-white" title="Continue with the documents that aren't done">
+                                Resume
+                            </button>
+                        </>
+                    ) : (
+                        <p className="text-xs text-gem-offwhite/70">Switch back to the backend this was started on to resume it.</p>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StoreTransferPanel;
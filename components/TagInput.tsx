@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useId } from 'react';
+
+interface TagInputProps {
+    values: string[];
+    onChange: (values: string[]) => void;
+    // Offered as completions; any value can still be typed.
+    suggestions?: string[];
+    placeholder?: string;
+}
+
+// Enter or a comma turns the typed text into a tag; Backspace on an empty input removes the last one.
+const TagInput: React.FC<TagInputProps> = ({ values, onChange, suggestions = [], placeholder }) => {
+    const [text, setText] = useState('');
+    const listId = useId();
+
+    const addTag = (raw: string) => {
+        const tag = raw.trim();
+        if (tag && !values.includes(tag)) onChange([...values, tag]);
+        setText('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag(text);
+        } else if (e.key === 'Backspace' && !text && values.length > 0) {
+            onChange(values.slice(0, -1));
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-1 bg-gem-mist border border-gem-mist/50 rounded-md py-1 px-2 text-sm focus-within:ring-2 focus-within:ring-gem-blue">
+            {values.map(value => (
+                <span key={value} className="flex items-center bg-gem-slate rounded-full px-2 text-xs">
+                    {value}
+                    <button type="button" onClick={() => onChange(values.filter(v => v !== value))} className="ml-1 text-gem-offwhite/60 hover:text-gem-offwhite" aria-label={`Remove ${value}`} title={`Remove ${value}`}>
+                        ×
+                    </button>
+                </span>
+            ))}
+            <input
+                type="text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => addTag(text)}
+                placeholder={values.length === 0 ? placeholder : undefined}
+                list={suggestions.length > 0 ? listId : undefined}
+                className="flex-grow min-w-16 bg-transparent focus:outline-none"
+            />
+            {suggestions.length > 0 && (
+                <datalist id={listId}>
+                    {suggestions.filter(s => !values.includes(s)).map(s => <option key={s} value={s} />)}
+                </datalist>
+            )}
+        </div>
+    );
+};
+
+export default TagInput;
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { UploadQueueItem, UploadStatus } from '../types';
+import { isFinished } from '../services/uploadQueue';
+import ProgressBar from './ProgressBar';
+import UploadIcon from './icons/UploadIcon';
+
+interface UploadQueuePanelProps {
+    items: UploadQueueItem[];
+    onRetry: (id: string) => void;
+    onCancel: (id: string) => void;
+    onClearFinished: () => void;
+}
+
+const STATUS_STYLES: Record<UploadStatus, string> = {
+    queued: 'bg-gem-slate text-gem-offwhite/70',
+    uploading: 'bg-gem-blue text-white',
+    indexing: 'bg-gem-teal text-white',
+    done: 'bg-green-700 text-white',
+    failed: 'bg-red-700 text-white',
+    cancelled: 'bg-gem-slate text-gem-offwhite/50',
+};
+
+const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({ items, onRetry, onCancel, onClearFinished }) => {
+    if (items.length === 0) return null;
+
+    const finishedCount = items.filter(isFinished).length;
+    const failedCount = items.filter(item => item.status === 'failed').length;
+    const inFlight = items.filter(item => item.status === 'uploading' || item.status === 'indexing');
+    const message = finishedCount === items.length
+        ? `Finished${failedCount > 0 ? ` with ${failedCount} failed` : ''}`
+        : 'Uploading documents';
+
+    return (
+        <div className="mb-4 p-3 bg-gem-mist/40 rounded-md">
+            <ProgressBar
+                progress={finishedCount}
+                total={items.length}
+                message={message}
+                fileName={inFlight.map(item => item.displayName).join(', ')}
+                icon={finishedCount < items.length ? <UploadIcon /> : undefined}
+            />
+            <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto text-sm pr-1">
+                {items.map(item => (
+                    <li key={item.id} className="flex items-center justify-between gap-2">
+                        <span className="truncate flex-1" title={item.error ? `${item.displayName}: ${item.error}` : item.displayName}>
+                            {item.displayName}
+                        </span>
+                        <span className={`text-xs px-2 py-0.5 rounded shrink-0 ${STATUS_STYLES[item.status]}`} title={item.error}>
+                            {item.status}
+                        </span>
+                        {isFinished(item) ? (
+                            item.status !== 'done' && item.file && (
+                                <button onClick={() => onRetry(item.id)} className="text-xs text-gem-blue hover:text-blue-400 shrink-0" title={`Retry ${item.displayName}`}>
+                                    Retry
+                                </button>
+                            )
+                        ) : (
+                            <button
+                                onClick={() => onCancel(item.id)}
+                                className="text-xs text-red-400 hover:text-red-300 shrink-0"
+                                title={item.status === 'indexing'
+                                    ? 'Stop waiting for indexing. The store may still finish importing this file.'
+                                    : `Cancel ${item.displayName}`}
+                            >
+                                Cancel
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+            {finishedCount > 0 && (
+                <button onClick={onClearFinished} className="mt-2 text-xs text-gem-offwhite/70 hover:text-gem-offwhite" title="Remove finished uploads from this list">
+                    Clear finished
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default UploadQueuePanel;
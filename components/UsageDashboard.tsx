@@ -0,0 +1,114 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { QuerySource, QueryTelemetry } from '../types';
+import { formatCost, summarizeTelemetry } from '../services/telemetry';
+
+interface UsageDashboardProps {
+    isOpen: boolean;
+    records: QueryTelemetry[];
+    sessionStartedAt: number;
+    onReset: () => void;
+    onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<QuerySource, string> = {
+    chat: 'chat',
+    compare: 'compare',
+    evaluate: 'evaluation',
+    rerun: 'history re-run',
+};
+
+const formatTokens = (count: number) => count.toLocaleString();
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ isOpen, records, sessionStartedAt, onReset, onClose }) => {
+    if (!isOpen) return null;
+
+    const totals = summarizeTelemetry(records);
+    const knownCost = totals.reduce((sum, row) => sum + (row.cost ?? 0), 0);
+    const hasUnpriced = totals.some(row => row.cost === undefined);
+    const bySource = (Object.keys(SOURCE_LABELS) as QuerySource[])
+        .map(source => ({ source, count: records.filter(record => record.source === source).length }))
+        .filter(entry => entry.count > 0);
+
+    return (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50" role="dialog" aria-modal="true" aria-labelledby="usage-title" onClick={onClose}>
+            <div className="bg-gem-slate p-6 rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+                <h3 id="usage-title" className="text-xl font-bold mb-1">Session Usage</h3>
+                <p className="text-sm text-gem-offwhite/70 mb-4">
+                    Since {new Date(sessionStartedAt).toLocaleTimeString()} · {records.length} {records.length === 1 ? 'query' : 'queries'}
+                    {bySource.length > 0 && ` (${bySource.map(entry => `${entry.count} ${SOURCE_LABELS[entry.source]}`).join(', ')})`}
+                </p>
+
+                <div className="grid grid-cols-2 gap-4 mb-4">
+                    <div className="bg-gem-mist/50 rounded-lg p-3">
+                        <div className="text-xs text-gem-offwhite/60">Estimated cost</div>
+                        <div className="text-2xl font-bold">{formatCost(knownCost)}{hasUnpriced && '+'}</div>
+                    </div>
+                    <div className="bg-gem-mist/50 rounded-lg p-3">
+                        <div className="text-xs text-gem-offwhite/60">Total tokens</div>
+                        <div className="text-2xl font-bold">{formatTokens(totals.reduce((sum, row) => sum + row.totalTokens, 0))}</div>
+                    </div>
+                </div>
+
+                {totals.length === 0 ? (
+                    <p className="text-center text-gem-offwhite/60 py-6">No queries yet this session.</p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead className="text-left text-xs text-gem-offwhite/60">
+                                <tr>
+                                    <th className="font-normal py-1 pr-2">Model</th>
+                                    <th className="font-normal py-1 pr-2 text-right">Queries</th>
+                                    <th className="font-normal py-1 pr-2 text-right">Prompt</th>
+                                    <th className="font-normal py-1 pr-2 text-right" title="Retrieved File Search content added to the prompt">Retrieved</th>
+                                    <th className="font-normal py-1 pr-2 text-right">Output</th>
+                                    <th className="font-normal py-1 pr-2 text-right">Thinking</th>
+                                    <th className="font-normal py-1 pr-2 text-right">Avg latency</th>
+                                    <th className="font-normal py-1 text-right">Est. cost</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {totals.map(row => (
+                                    <tr key={row.model} className="border-t border-gem-mist/50">
+                                        <td className="py-1 pr-2 truncate max-w-48" title={row.model}>{row.model}</td>
+                                        <td className="py-1 pr-2 text-right">{row.queries}</td>
+                                        <td className="py-1 pr-2 text-right">{formatTokens(row.promptTokens)}</td>
+                                        <td className="py-1 pr-2 text-right">{formatTokens(row.toolUsePromptTokens)}</td>
+                                        <td className="py-1 pr-2 text-right">{formatTokens(row.candidatesTokens)}</td>
+                                        <td className="py-1 pr-2 text-right">{formatTokens(row.thoughtsTokens)}</td>
+                                        <td className="py-1 pr-2 text-right">{row.averageLatencyMs !== undefined ? `${(row.averageLatencyMs / 1000).toFixed(1)} s` : '–'}</td>
+                                        <td className="py-1 text-right" title={row.cost === undefined ? 'No price known for this model' : undefined}>{formatCost(row.cost)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+
+                <p className="text-xs text-gem-offwhite/50 mt-4">
+                    Costs are estimates from paid-tier list prices. Retrieved content is billed as input and thinking as output.
+                    Uploads and indexing are not included.
+                </p>
+
+                <div className="flex justify-end space-x-2 mt-4">
+                    <button
+                        onClick={onReset}
+                        disabled={records.length === 0}
+                        className="px-4 py-2 rounded-md bg-gem-mist hover:bg-gem-mist/70 transition-colors disabled:opacity-50"
+                        title="Start counting from zero"
+                    >
+                        Reset
+                    </button>
+                    <button onClick={onClose} className="px-4 py-2 rounded-md bg-gem-blue hover:bg-blue-500 text-white transition-colors" title="Close">
+                        Close
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default UsageDashboard;
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BackendId, RetrievalBackend } from './retrievalBackend';
+import { geminiBackend } from './geminiBackend';
+import { localBackend } from './localBackend';
+import { withFileCache } from './cachingBackend';
+import { readSetting, writeSetting } from './localSettings';
+
+export const BACKENDS: RetrievalBackend[] = [withFileCache(geminiBackend), withFileCache(localBackend)];
+
+const BACKEND_KEY = 'retrievalBackend';
+
+export function getBackend(id: BackendId): RetrievalBackend {
+    return BACKENDS.find(backend => backend.id === id) || BACKENDS[0];
+}
+
+export function loadBackendId(): BackendId {
+    return getBackend(readSetting<BackendId>(BACKEND_KEY, 'gemini')).id;
+}
+
+export function saveBackendId(id: BackendId): void {
+    writeSetting(BACKEND_KEY, id);
+}
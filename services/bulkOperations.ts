@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { BulkItem, Document, RagStore } from '../types';
+
+export const BULK_CONCURRENCY = 4;
+
+export const isBulkItemFinished = (item: BulkItem) => item.status !== 'queued' && item.status !== 'running';
+
+export interface BulkRunOptions {
+    concurrency: number;
+    abortSignal?: AbortSignal;
+    // Called with a fresh array on every status change.
+    onChange: (items: BulkItem[]) => void;
+}
+
+/**
+ * Runs `work` for every queued item with at most `concurrency` running at
+ * once. Failures are recorded per item and don't stop the rest. Once aborted,
+ * items that haven't started are marked cancelled.
+ */
+export async function runBulkOperation(
+    items: BulkItem[],
+    work: (item: BulkItem) => Promise<void>,
+    { concurrency, abortSignal, onChange }: BulkRunOptions,
+): Promise<BulkItem[]> {
+    let current = items;
+    const update = (index: number, changes: Partial<BulkItem>) => {
+        current = current.map((item, i) => i === index ? { ...item, ...changes } : item);
+        onChange(current);
+    };
+
+    const queue = items.map((item, index) => ({ item, index })).filter(({ item }) => item.status === 'queued');
+    const worker = async () => {
+        for (let next = queue.shift(); next; next = queue.shift()) {
+            if (abortSignal?.aborted) {
+                update(next.index, { status: 'cancelled' });
+                continue;
+            }
+            update(next.index, { status: 'running' });
+            try {
+                await work(next.item);
+                update(next.index, { status: 'done' });
+            } catch (err) {
+                update(next.index, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+    return current;
+}
+
+export interface DocumentManifest {
+    exportedAt: string;
+    store: RagStore;
+    documents: Document[];
+}
+
+export function createDocumentManifest(store: RagStore, documents: Document[]): DocumentManifest {
+    return {
+        exportedAt: new Date().toISOString(),
+        store: { name: store.name, displayName: store.displayName },
+        documents: documents.map(doc => ({ name: doc.name, displayName: doc.displayName, customMetadata: doc.customMetadata || [] })),
+    };
+}
@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RetrievalBackend } from './retrievalBackend';
+import { cacheFile, evictCachedFile, evictCachedStore, getCachedFile, renameCachedFile } from './fileCache';
+
+// The cache only saves work later, so failing to update it never fails the
+// operation itself.
+const logCacheError = (err: unknown) => console.error('Failed to update the local file cache', err);
+
+/**
+ * Wraps a backend so uploads keep their original bytes in the local file
+ * cache, deletes and renames are reflected there, and `getDocumentFile` looks
+ * in the cache before asking the backend.
+ */
+export function withFileCache(backend: RetrievalBackend): RetrievalBackend {
+    return {
+        ...backend,
+
+        async uploadToRagStore(ragStoreName, file, metadata, options = {}) {
+            const docName = await backend.uploadToRagStore(ragStoreName, file, metadata, options);
+            if (docName) {
+                await cacheFile(ragStoreName, docName, options.displayName || file.name, file).catch(logCacheError);
+            }
+            return docName;
+        },
+
+        updateDocument: backend.updateDocument && (async (ragStoreName, docName, update) => {
+            await backend.updateDocument(ragStoreName, docName, update);
+            await renameCachedFile(docName, update.displayName).catch(logCacheError);
+        }),
+
+        async deleteDocument(ragStoreName, docName) {
+            await backend.deleteDocument(ragStoreName, docName);
+            await evictCachedFile(docName).catch(logCacheError);
+        },
+
+        async deleteRagStore(ragStoreName) {
+            await backend.deleteRagStore(ragStoreName);
+            await evictCachedStore(ragStoreName).catch(logCacheError);
+        },
+
+        async getDocumentFile(ragStoreName, document) {
+            const cached = await getCachedFile(document.name).catch(err => {
+                logCacheError(err);
+                return undefined;
+            });
+            return cached ?? backend.getDocumentFile?.(ragStoreName, document);
+        },
+    };
+}
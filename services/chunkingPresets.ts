@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChunkingConfig, ChunkingPreset, CustomMetadata } from '../types';
+import { readSetting, writeSetting } from './localSettings';
+
+// Metadata keys recording how a document was chunked, so retrieval quality can
+// be compared across chunking strategies.
+export const CHUNKING_METADATA_KEYS = {
+    strategy: 'chunking',
+    maxTokensPerChunk: 'chunk_max_tokens',
+    maxOverlapTokens: 'chunk_overlap_tokens',
+};
+
+const presetsKey = (storeName: string) => `chunkingPresets:${storeName}`;
+
+export function loadChunkingPresets(storeName: string): ChunkingPreset[] {
+    return readSetting<ChunkingPreset[]>(presetsKey(storeName), []);
+}
+
+export function saveChunkingPresets(storeName: string, presets: ChunkingPreset[]): void {
+    writeSetting(presetsKey(storeName), presets);
+}
+
+export function isDefaultChunking(config?: ChunkingConfig): boolean {
+    return config?.maxTokensPerChunk === undefined && config?.maxOverlapTokens === undefined;
+}
+
+export function describeChunkingConfig(config?: ChunkingConfig): string {
+    if (isDefaultChunking(config)) return 'default';
+    const size = config.maxTokensPerChunk !== undefined ? `${config.maxTokensPerChunk} tokens` : 'default size';
+    const overlap = config.maxOverlapTokens !== undefined ? `${config.maxOverlapTokens} overlap` : 'default overlap';
+    return `${size}, ${overlap}`;
+}
+
+/**
+ * Returns the metadata entries describing the chunking config, replacing any
+ * existing chunking entries in `metadata`.
+ */
+export function withChunkingMetadata(metadata: CustomMetadata[], config?: ChunkingConfig): CustomMetadata[] {
+    const keys = Object.values(CHUNKING_METADATA_KEYS);
+    const result = metadata.filter(meta => !keys.includes(meta.key));
+    if (isDefaultChunking(config)) {
+        result.push({ key: CHUNKING_METADATA_KEYS.strategy, stringValue: 'default' });
+        return result;
+    }
+    result.push({ key: CHUNKING_METADATA_KEYS.strategy, stringValue: 'whitespace' });
+    if (config.maxTokensPerChunk !== undefined) {
+        result.push({ key: CHUNKING_METADATA_KEYS.maxTokensPerChunk, numericValue: config.maxTokensPerChunk });
+    }
+    if (config.maxOverlapTokens !== undefined) {
+        result.push({ key: CHUNKING_METADATA_KEYS.maxOverlapTokens, numericValue: config.maxOverlapTokens });
+    }
+    return result;
+}
+
+/** Reads back the chunking config recorded by `withChunkingMetadata`. */
+export function chunkingConfigFromMetadata(metadata: CustomMetadata[] = []): ChunkingConfig {
+    const numeric = (key: string) => metadata.find(meta => meta.key === key)?.numericValue;
+    return {
+        maxTokensPerChunk: numeric(CHUNKING_METADATA_KEYS.maxTokensPerChunk),
+        maxOverlapTokens: numeric(CHUNKING_METADATA_KEYS.maxOverlapTokens),
+    };
+}
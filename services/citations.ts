@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingSupport } from '../types';
+
+export interface Citation {
+    position: number;
+    chunkIndices: number[];
+}
+
+// Segment offsets are UTF-8 byte offsets, but strings are indexed by UTF-16
+// code units. Map each byte offset that starts a character to its string index.
+const buildByteToCharIndex = (text: string) => {
+    const encoder = new TextEncoder();
+    const offsets = new Map<number, number>();
+    let bytes = 0;
+    let index = 0;
+    for (const char of text) {
+        offsets.set(bytes, index);
+        bytes += encoder.encode(char).length;
+        index += char.length;
+    }
+    offsets.set(bytes, index);
+    return (byteOffset: number) => offsets.get(byteOffset);
+};
+
+/**
+ * Works out where citation markers go in an answer: after the end of each
+ * supported segment, listing every chunk that supports it.
+ */
+export const findCitations = (text: string, supports: GroundingSupport[]): Citation[] => {
+    const toCharIndex = buildByteToCharIndex(text);
+    const byPosition = new Map<number, Set<number>>();
+    for (const support of supports) {
+        const chunkIndices = support.groundingChunkIndices || [];
+        if (chunkIndices.length === 0 || !support.segment) continue;
+        let position = support.segment.endIndex !== undefined ? toCharIndex(support.segment.endIndex) : undefined;
+        // Fall back to locating the segment text if the offsets don't line up.
+        if (position === undefined && support.segment.text) {
+            const start = text.indexOf(support.segment.text);
+            if (start >= 0) position = start + support.segment.text.length;
+        }
+        if (position === undefined) continue;
+        const indices = byPosition.get(position) || new Set<number>();
+        chunkIndices.forEach(i => indices.add(i));
+        byPosition.set(position, indices);
+    }
+    return [...byPosition.entries()]
+        .map(([position, indices]) => ({ position, chunkIndices: [...indices].sort((a, b) => a - b) }))
+        .sort((a, b) => a.position - b.position);
+};
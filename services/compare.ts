@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GroundingChunk } from '../types';
+
+export interface RetrievedChunk {
+    key: string;
+    title: string;
+    text: string;
+    storeName?: string;
+}
+
+export interface ChunkDiff {
+    shared: RetrievedChunk[];
+    onlyA: RetrievedChunk[];
+    onlyB: RetrievedChunk[];
+}
+
+// Chunks are the same when they come from the same document and have the same
+// text. Stores created from the same files get different document names, so
+// the title stands in for the document.
+const chunkKey = (title: string, text: string) =>
+    `${title.toLowerCase()}\u0000${text.replace(/\s+/g, ' ').trim()}`;
+
+function toRetrievedChunks(chunks: GroundingChunk[]): RetrievedChunk[] {
+    const seen = new Set<string>();
+    const retrieved: RetrievedChunk[] = [];
+    for (const chunk of chunks) {
+        const context = chunk.retrievedContext;
+        if (!context?.text) continue;
+        const title = context.title || context.documentName?.split('/').pop() || 'Untitled';
+        const key = chunkKey(title, context.text);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        retrieved.push({ key, title, text: context.text, storeName: context.fileSearchStore });
+    }
+    return retrieved;
+}
+
+/** Splits the chunks two answers were grounded on into shared and one-sided ones. */
+export function diffRetrievedChunks(a: GroundingChunk[], b: GroundingChunk[]): ChunkDiff {
+    const chunksA = toRetrievedChunks(a);
+    const chunksB = toRetrievedChunks(b);
+    const keysA = new Set(chunksA.map(chunk => chunk.key));
+    const keysB = new Set(chunksB.map(chunk => chunk.key));
+    return {
+        shared: chunksA.filter(chunk => keysB.has(chunk.key)),
+        onlyA: chunksA.filter(chunk => !keysB.has(chunk.key)),
+        onlyB: chunksB.filter(chunk => !keysA.has(chunk.key)),
+    };
+}
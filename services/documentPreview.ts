@@ -0,0 +1,200 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { marked } from 'marked';
+
+export type PreviewFormat = 'text' | 'markdown' | 'html' | 'pdf';
+
+// A document ready to show: plain text pages, or HTML for a sandboxed frame.
+export type PreviewContent =
+    | { format: 'text' | 'pdf', pages: string[] }
+    | { format: 'markdown' | 'html', html: string };
+
+// Where a retrieved chunk was found in a document's text, as offsets into it.
+export interface ChunkRange {
+    start: number;
+    end: number;
+    chunkIndex: number;
+}
+
+export interface TextSegment {
+    text: string;
+    // Set for text inside a retrieved chunk.
+    chunkIndex?: number;
+}
+
+// Pieces of a chunk shorter than this match too many places to be useful.
+const MIN_PIECE_LENGTH = 24;
+
+const EXTENSION_FORMATS: Record<string, PreviewFormat> = {
+    md: 'markdown',
+    markdown: 'markdown',
+    html: 'html',
+    htm: 'html',
+    pdf: 'pdf',
+};
+
+export function previewFormat(file: { name: string, type: string }): PreviewFormat | undefined {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    if (file.type === 'application/pdf') return 'pdf';
+    if (file.type === 'text/html') return 'html';
+    if (file.type === 'text/markdown') return 'markdown';
+    if (EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+    if (file.type.startsWith('text/') || file.type === 'application/json' || ['txt', 'csv', 'tsv', 'json', 'xml', 'log', 'yaml', 'yml'].includes(extension)) {
+        return 'text';
+    }
+    return undefined;
+}
+
+async function extractPdfPages(file: Blob): Promise<string[]> {
+    // Loaded on first use, with the worker bundled from the same package version.
+    // Only Vite can bundle the worker, so the import map in index.html has no entry for pdf.js.
+    const [pdfjs, { default: workerUrl }] = await Promise.all([
+        import('pdfjs-dist'),
+        import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+    ]).catch(err => {
+        console.error('Failed to load pdf.js', err);
+        throw new Error('PDF preview needs the app to be run with Vite (npm run dev or a build).');
+    });
+    pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+    const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+    try {
+        const pages: string[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+            const page = await pdf.getPage(pageNumber);
+            const content = await page.getTextContent();
+            pages.push(content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join(''));
+        }
+        return pages;
+    } finally {
+        await pdf.destroy();
+    }
+}
+
+export async function loadPreviewContent(file: File): Promise<PreviewContent> {
+    const format = previewFormat(file);
+    if (!format) {
+        throw new Error(`${file.type || 'This file type'} can't be previewed.`);
+    }
+    if (format === 'pdf') {
+        return { format, pages: await extractPdfPages(file) };
+    }
+    const text = await file.text();
+    if (format === 'markdown') {
+        return { format, html: await marked.parse(text) };
+    }
+    return format === 'html' ? { format, html: text } : { format, pages: [text] };
+}
+
+/**
+ * Keeps only letters and digits, lowercased, with a single space for every
+ * run of anything else. Chunk text rarely matches the source byte for byte
+ * (Markdown syntax, HTML tags and PDF line breaks all differ), but its words
+ * do. `offsets` maps each kept character back to the original text.
+ */
+function normalize(text: string): { text: string, offsets: number[] } {
+    let normalized = '';
+    const offsets: number[] = [];
+    const pattern = /[\p{L}\p{N}]+/gu;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+        if (normalized) {
+            normalized += ' ';
+            offsets.push(match.index);
+        }
+        const word = match[0].toLowerCase();
+        // Lowercasing can change the length of a few characters; map them all
+        // to the word's start rather than guess.
+        for (let i = 0; i < word.length; i++) {
+            offsets.push(word.length === match[0].length ? match.index + i : match.index);
+        }
+        normalized += word;
+    }
+    return { text: normalized, offsets };
+}
+
+/**
+ * Finds where each chunk appears in `text`. A chunk is matched whole where
+ * possible; otherwise its sentences and lines are matched one by one, since
+ * chunks are often cut or reflowed differently from the source.
+ */
+export function findChunkRanges(text: string, chunks: string[]): ChunkRange[] {
+    const source = normalize(text);
+    const toRange = (start: number, length: number, chunkIndex: number): ChunkRange => {
+        const lastOffset = source.offsets[start + length - 1];
+        const lastWord = /^[\p{L}\p{N}]+/u.exec(text.slice(lastOffset));
+        return { start: source.offsets[start], end: lastOffset + (lastWord ? lastWord[0].length : 1), chunkIndex };
+    };
+
+    const ranges = chunks.flatMap((chunk, chunkIndex) => {
+        const whole = normalize(chunk).text;
+        if (!whole) return [];
+        const wholeIndex = source.text.indexOf(whole);
+        if (wholeIndex >= 0) return [toRange(wholeIndex, whole.length, chunkIndex)];
+
+        const found: ChunkRange[] = [];
+        let from = 0;
+        for (const piece of chunk.split(/\n+|(?<=[.!?;:])\s+/)) {
+            const needle = normalize(piece).text;
+            if (needle.length < MIN_PIECE_LENGTH) continue;
+            // Prefer the next match after the previous piece, so pieces stay in order.
+            let index = source.text.indexOf(needle, from);
+            if (index < 0) index = source.text.indexOf(needle);
+            if (index < 0) continue;
+            found.push(toRange(index, needle.length, chunkIndex));
+            from = index + needle.length;
+        }
+        return found;
+    });
+    return ranges.sort((a, b) => a.start - b.start);
+}
+
+/** Splits text into plain and highlighted segments. Overlapping ranges go to the earlier one. */
+export function splitByRanges(text: string, ranges: ChunkRange[]): TextSegment[] {
+    const segments: TextSegment[] = [];
+    let position = 0;
+    for (const range of ranges) {
+        const start = Math.max(range.start, position);
+        if (start >= range.end) continue;
+        if (start > position) segments.push({ text: text.slice(position, start) });
+        segments.push({ text: text.slice(start, range.end), chunkIndex: range.chunkIndex });
+        position = range.end;
+    }
+    if (position < text.length) segments.push({ text: text.slice(position) });
+    return segments;
+}
+
+/**
+ * Wraps the chunk ranges found in an element's text in `<mark>` elements,
+ * splitting text nodes as needed. Returns the marks, in document order.
+ */
+export function highlightElement(root: HTMLElement, chunks: string[]): HTMLElement[] {
+    const walker = root.ownerDocument.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+    const nodes: { node: Text, start: number }[] = [];
+    let text = '';
+    for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+        nodes.push({ node, start: text.length });
+        text += node.data;
+    }
+
+    const marks: HTMLElement[] = [];
+    // Working backwards keeps the earlier nodes' offsets valid while splitting.
+    const ranges = findChunkRanges(text, chunks);
+    for (let r = ranges.length - 1; r >= 0; r--) {
+        const range = ranges[r];
+        for (let n = nodes.length - 1; n >= 0; n--) {
+            const { node, start } = nodes[n];
+            const from = Math.max(range.start, start) - start;
+            const to = Math.min(range.end, start + node.data.length) - start;
+            if (from >= to) continue;
+            const target = node.splitText(from);
+            target.splitText(to - from);
+            const mark = root.ownerDocument.createElement('mark');
+            mark.dataset.chunk = String(range.chunkIndex);
+            target.replaceWith(mark);
+            mark.appendChild(target);
+            marks.unshift(mark);
+        }
+    }
+    return marks;
+}
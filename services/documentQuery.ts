@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Document, DocumentPage } from '../types';
+import { RetrievalBackend } from './retrievalBackend';
+import { getMetadataValues } from './metadataFilter';
+
+// The most Gemini File Search returns per page.
+export const DOCUMENT_PAGE_SIZE = 20;
+
+/**
+ * Fetches pages until at least `minCount` documents are loaded or the store
+ * runs out, so a refresh keeps as many documents listed as before.
+ */
+export async function listDocumentPages(backend: RetrievalBackend, storeName: string, minCount = 0, pageToken?: string): Promise<DocumentPage> {
+    const documents: Document[] = [];
+    let nextPageToken = pageToken;
+    do {
+        const page = await backend.listDocumentsPage(storeName, { pageSize: DOCUMENT_PAGE_SIZE, pageToken: nextPageToken });
+        documents.push(...page.documents);
+        nextPageToken = page.nextPageToken;
+    } while (nextPageToken && documents.length < minCount);
+    return { documents, nextPageToken };
+}
+
+export type DocumentSort = 'listed' | 'name-asc' | 'name-desc' | 'newest' | 'oldest' | 'largest';
+
+export const DOCUMENT_SORTS: { id: DocumentSort, label: string }[] = [
+    { id: 'listed', label: 'Store order' },
+    { id: 'name-asc', label: 'Name A–Z' },
+    { id: 'name-desc', label: 'Name Z–A' },
+    { id: 'newest', label: 'Newest first' },
+    { id: 'oldest', label: 'Oldest first' },
+    { id: 'largest', label: 'Largest first' },
+];
+
+const createdAt = (doc: Document) => doc.createTime ? Date.parse(doc.createTime) || 0 : 0;
+
+// Documents missing the sorted field keep their listed order after the rest.
+const DOCUMENT_COMPARATORS: Record<Exclude<DocumentSort, 'listed'>, (a: Document, b: Document) => number> = {
+    'name-asc': (a, b) => a.displayName.localeCompare(b.displayName, undefined, { numeric: true }),
+    'name-desc': (a, b) => b.displayName.localeCompare(a.displayName, undefined, { numeric: true }),
+    newest: (a, b) => createdAt(b) - createdAt(a),
+    oldest: (a, b) => (createdAt(a) || Infinity) - (createdAt(b) || Infinity) || 0,
+    largest: (a, b) => (b.sizeBytes ?? -1) - (a.sizeBytes ?? -1),
+};
+
+// Selected values per metadata key. A document matches a key if it has any of
+// the key's selected values, and must match every key with a selection.
+export type FacetSelection = Record<string, string[]>;
+
+export interface Facet {
+    key: string;
+    values: { value: string, count: number }[];
+}
+
+/** Metadata keys and values of the given documents, with how many documents have each. */
+export function collectFacets(documents: Document[]): Facet[] {
+    const facets = new Map<string, Map<string, number>>();
+    for (const doc of documents) {
+        for (const meta of doc.customMetadata || []) {
+            if (!meta.key) continue;
+            const counts = facets.get(meta.key) || new Map<string, number>();
+            facets.set(meta.key, counts);
+            new Set(getMetadataValues(meta)).forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+        }
+    }
+    return [...facets.entries()]
+        .map(([key, counts]) => ({
+            key,
+            values: [...counts.entries()]
+                .map(([value, count]) => ({ value, count }))
+                .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value, undefined, { numeric: true })),
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function matchesFacets(doc: Document, selection: FacetSelection): boolean {
+    return Object.entries(selection).every(([key, selected]) => {
+        if (selected.length === 0) return true;
+        const values = (doc.customMetadata || []).filter(meta => meta.key === key).flatMap(getMetadataValues);
+        return values.some(value => selected.includes(value));
+    });
+}
+
+/** Filters by display name and metadata facets, then sorts. */
+export function queryDocuments(documents: Document[], options: { search: string, sort: DocumentSort, facets: FacetSelection }): Document[] {
+    const search = options.search.trim().toLowerCase();
+    const matches = documents.filter(doc =>
+        (!search || doc.displayName.toLowerCase().includes(search)) && matchesFacets(doc, options.facets));
+    if (options.sort === 'listed') return matches;
+    return [...matches].sort(DOCUMENT_COMPARATORS[options.sort]);
+}
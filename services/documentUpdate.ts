@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CustomMetadata, Document, DocumentUpdate, MetadataValueType } from '../types';
+import { RetrievalBackend } from './retrievalBackend';
+import { CHUNKING_METADATA_KEYS, chunkingConfigFromMetadata } from './chunkingPresets';
+import { getMetadataValueType, getMetadataValues } from './metadataFilter';
+
+/** A metadata entry as edited in a form: every value is text until saved. */
+export interface MetadataDraft {
+    key: string;
+    valueType: MetadataValueType;
+    // List values are comma-separated.
+    value: string;
+}
+
+const CHUNKING_KEYS: string[] = Object.values(CHUNKING_METADATA_KEYS);
+
+export const splitListValue = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+// Chunking entries describe how the document was indexed, so they aren't edited.
+export function toMetadataDrafts(metadata: CustomMetadata[] = []): MetadataDraft[] {
+    return metadata
+        .filter(meta => meta.key && !CHUNKING_KEYS.includes(meta.key))
+        .map(meta => ({ key: meta.key, valueType: getMetadataValueType(meta), value: getMetadataValues(meta).join(', ') }));
+}
+
+/** Converts drafts back to metadata, skipping rows without a key. */
+export function fromMetadataDrafts(drafts: MetadataDraft[]): { metadata: CustomMetadata[], errors: string[] } {
+    const metadata: CustomMetadata[] = [];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const draft of drafts) {
+        const key = draft.key.trim();
+        if (!key) continue;
+        if (seen.has(key)) {
+            errors.push(`"${key}" is used more than once.`);
+            continue;
+        }
+        seen.add(key);
+        if (CHUNKING_KEYS.includes(key)) {
+            errors.push(`"${key}" is reserved for the chunking settings.`);
+        } else if (draft.valueType === 'numeric') {
+            const number = Number(draft.value);
+            if (draft.value.trim() === '' || !Number.isFinite(number)) {
+                errors.push(`"${key}" needs a number.`);
+            } else {
+                metadata.push({ key, numericValue: number });
+            }
+        } else if (draft.valueType === 'stringList') {
+            metadata.push({ key, stringListValue: { values: splitListValue(draft.value) } });
+        } else {
+            metadata.push({ key, stringValue: draft.value.trim() });
+        }
+    }
+    return { metadata, errors };
+}
+
+/**
+ * Sets the given entries on top of a document's metadata, replacing entries
+ * with the same key, and drops the keys in `removeKeys`.
+ */
+export function mergeMetadata(existing: CustomMetadata[] = [], entries: CustomMetadata[], removeKeys: string[] = []): CustomMetadata[] {
+    const replaced = new Set([...entries.map(meta => meta.key), ...removeKeys]);
+    return [...existing.filter(meta => !replaced.has(meta.key)), ...entries.filter(meta => !removeKeys.includes(meta.key))];
+}
+
+/**
+ * Changes a document's display name and metadata. Backends that can't do that
+ * in place get the document uploaded again from `file`, or the copy the backend
+ * can return, with the same chunking. The old one is deleted only once the new
+ * one is indexed.
+ */
+export async function applyDocumentUpdate(
+    backend: RetrievalBackend,
+    storeName: string,
+    document: Document,
+    update: DocumentUpdate,
+    file?: File,
+): Promise<void> {
+    if (backend.updateDocument) {
+        await backend.updateDocument(storeName, document.name, update);
+        return;
+    }
+    const source = file ?? await backend.getDocumentFile?.(storeName, document);
+    if (!source) {
+        throw new Error(`The ${backend.label} backend can't edit documents in place, so the original file is needed to upload it again`);
+    }
+    await backend.uploadToRagStore(storeName, source, update.customMetadata, {
+        displayName: update.displayName,
+        chunkingConfig: chunkingConfigFromMetadata(document.customMetadata),
+    });
+    await backend.deleteDocument(storeName, document.name);
+}
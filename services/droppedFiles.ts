@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const readEntries = (reader: FileSystemDirectoryReader) =>
+    new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+
+const entryToFile = (entry: FileSystemFileEntry) =>
+    new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+async function collectEntry(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+        return [await entryToFile(entry as FileSystemFileEntry)];
+    }
+    if (!entry.isDirectory) return [];
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    // readEntries returns directory contents in batches until it returns none.
+    for (let batch = await readEntries(reader); batch.length > 0; batch = await readEntries(reader)) {
+        for (const child of batch) {
+            files.push(...await collectEntry(child));
+        }
+    }
+    return files;
+}
+
+/**
+ * Returns every file in a drop, descending into dropped folders. Hidden files
+ * (such as .DS_Store) are skipped.
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+    // Entries must be taken synchronously, before the drop event handler returns.
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry());
+    const files: File[] = [];
+    if (entries.every(entry => entry !== null)) {
+        for (const entry of entries) {
+            files.push(...await collectEntry(entry));
+        }
+    } else {
+        files.push(...Array.from(dataTransfer.files));
+    }
+    return files.filter(file => !file.name.startsWith('.'));
+}
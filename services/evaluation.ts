@@ -0,0 +1,206 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Document, EvalQuestion, EvalQuestionResult, EvalRun, EvalSummary, GroundingChunk, QueryResult } from '../types';
+import { findSourceDocument } from './sourceDocuments';
+import { readSetting, writeSetting } from './localSettings';
+
+export const DEFAULT_EVAL_K = 5;
+const MAX_SAVED_RUNS = 30;
+
+const toList = (value: unknown): string[] | undefined => {
+    if (value === undefined || value === null || value === '') return undefined;
+    const list = (Array.isArray(value) ? value : [value]).map(String).filter(v => v.trim());
+    return list.length > 0 ? list : undefined;
+};
+
+function toQuestion(item: unknown, where: string): EvalQuestion {
+    if (typeof item === 'string') return { question: item };
+    const record = item as Record<string, unknown>;
+    const question = record?.question ?? record?.query;
+    if (typeof question !== 'string' || !question.trim()) {
+        throw new Error(`${where}: expected a "question" string`);
+    }
+    return {
+        question: question.trim(),
+        expectedAnswers: toList(record.expectedAnswers ?? record.expectedAnswer),
+        expectedSources: toList(record.expectedSources ?? record.expectedSource),
+    };
+}
+
+/**
+ * Parses a question set written as a JSON array (or `{ "questions": [...] }`),
+ * as JSON Lines, or as plain text with one question per line.
+ */
+export function parseQuestionSet(text: string): EvalQuestion[] {
+    const trimmed = text.trim();
+    if (!trimmed) return [];
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch (err) {
+            // Several lines of objects are JSON Lines rather than one JSON value.
+            if (trimmed.startsWith('[') || !trimmed.includes('\n')) throw err;
+            return trimmed.split('\n').map(line => line.trim()).filter(Boolean).map((line, index) => {
+                try {
+                    return toQuestion(JSON.parse(line), `Line ${index + 1}`);
+                } catch (lineErr) {
+                    throw new Error(lineErr instanceof SyntaxError ? `Line ${index + 1}: ${lineErr.message}` : (lineErr as Error).message);
+                }
+            });
+        }
+        const items = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown }).questions ?? [parsed];
+        if (!Array.isArray(items)) throw new Error('Expected an array of questions');
+        return items.map((item, index) => toQuestion(item, `Question ${index + 1}`));
+    }
+    return trimmed.split('\n').map(line => line.trim()).filter(Boolean).map(question => ({ question }));
+}
+
+const IGNORED_WORDS = new Set(['a', 'an', 'the']);
+
+const answerTokens = (text: string) =>
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(token => token && !IGNORED_WORDS.has(token));
+
+/** Token-overlap F1 between two answers, as used for SQuAD-style scoring. */
+export function answerSimilarity(answer: string, expected: string): number {
+    const answerCounts = new Map<string, number>();
+    const answerList = answerTokens(answer);
+    const expectedList = answerTokens(expected);
+    if (answerList.length === 0 || expectedList.length === 0) {
+        return answerList.length === expectedList.length ? 1 : 0;
+    }
+    answerList.forEach(token => answerCounts.set(token, (answerCounts.get(token) || 0) + 1));
+    let overlap = 0;
+    for (const token of expectedList) {
+        const count = answerCounts.get(token) || 0;
+        if (count > 0) {
+            overlap++;
+            answerCounts.set(token, count - 1);
+        }
+    }
+    if (overlap === 0) return 0;
+    const precision = overlap / answerList.length;
+    const recall = overlap / expectedList.length;
+    return 2 * precision * recall / (precision + recall);
+}
+
+interface RetrievedSource {
+    label: string;
+    // Every name the source can be referred to by in a question set, lowercased.
+    aliases: string[];
+}
+
+/** The distinct documents behind the grounding chunks, in the order they were retrieved. */
+function retrievedSources(chunks: GroundingChunk[], documents: Document[]): RetrievedSource[] {
+    const sources: RetrievedSource[] = [];
+    for (const chunk of chunks) {
+        const context = chunk.retrievedContext;
+        if (!context) continue;
+        const document = findSourceDocument(chunk, documents);
+        const names = [document?.displayName, document?.name, context.title, context.documentName, context.uri]
+            .filter((name): name is string => !!name);
+        if (names.length === 0) continue;
+        const aliases = [...new Set(names.flatMap(name => [name, name.split('/').pop()]).map(name => name.toLowerCase()))];
+        if (sources.some(source => source.aliases.some(alias => aliases.includes(alias)))) continue;
+        sources.push({ label: names[0], aliases });
+    }
+    return sources;
+}
+
+export function scoreResult(question: EvalQuestion, result: QueryResult, documents: Document[], k: number): EvalQuestionResult {
+    const sources = retrievedSources(result.groundingChunks, documents);
+    const scored: EvalQuestionResult = {
+        question: question.question,
+        answer: result.text,
+        retrievedSources: sources.map(source => source.label),
+    };
+    if (question.expectedSources) {
+        const topK = sources.slice(0, k);
+        const found = question.expectedSources.filter(expected =>
+            topK.some(source => source.aliases.includes(expected.trim().toLowerCase())));
+        scored.sourceHit = found.length > 0;
+        scored.recallAtK = found.length / question.expectedSources.length;
+    }
+    if (question.expectedAnswers) {
+        scored.answerSimilarity = Math.max(...question.expectedAnswers.map(expected => answerSimilarity(result.text, expected)));
+    }
+    return scored;
+}
+
+const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : undefined;
+
+export function summarizeResults(results: EvalQuestionResult[]): EvalSummary {
+    const answered = results.filter(result => !result.error);
+    const withSources = answered.filter(result => result.recallAtK !== undefined);
+    return {
+        questionCount: results.length,
+        failedCount: results.length - answered.length,
+        sourceHitRate: mean(withSources.map(result => result.sourceHit ? 1 : 0)),
+        meanRecallAtK: mean(withSources.map(result => result.recallAtK)),
+        meanAnswerSimilarity: mean(answered.filter(result => result.answerSimilarity !== undefined).map(result => result.answerSimilarity)),
+    };
+}
+
+export interface RunEvaluationOptions {
+    documents: Document[];
+    k: number;
+    abortSignal?: AbortSignal;
+    onProgress?: (results: EvalQuestionResult[]) => void;
+}
+
+/**
+ * Asks each question in turn and scores the answer. A failed question is
+ * recorded and the run carries on; stopping the run returns what was scored so far.
+ */
+export async function runEvaluation(
+    questions: EvalQuestion[],
+    search: (question: string, abortSignal?: AbortSignal) => Promise<QueryResult>,
+    options: RunEvaluationOptions,
+): Promise<EvalQuestionResult[]> {
+    const results: EvalQuestionResult[] = [];
+    for (const question of questions) {
+        if (options.abortSignal?.aborted) break;
+        try {
+            const result = await search(question.question, options.abortSignal);
+            if (result.aborted) break;
+            results.push(scoreResult(question, result, options.documents, options.k));
+        } catch (err) {
+            if (options.abortSignal?.aborted) break;
+            results.push({ question: question.question, answer: '', retrievedSources: [], error: err instanceof Error ? err.message : String(err) });
+        }
+        options.onProgress?.([...results]);
+    }
+    return results;
+}
+
+// Runs are kept newest first, across all stores, so they can be compared.
+const EVAL_RUNS_KEY = 'evalRuns';
+
+export function loadEvalRuns(): EvalRun[] {
+    return readSetting<EvalRun[]>(EVAL_RUNS_KEY, []);
+}
+
+export function saveEvalRun(run: EvalRun): EvalRun[] {
+    const runs = [run, ...loadEvalRuns().filter(r => r.id !== run.id)].slice(0, MAX_SAVED_RUNS);
+    writeSetting(EVAL_RUNS_KEY, runs);
+    return runs;
+}
+
+export function deleteEvalRun(id: string): EvalRun[] {
+    const runs = loadEvalRuns().filter(r => r.id !== id);
+    writeSetting(EVAL_RUNS_KEY, runs);
+    return runs;
+}
+
+const questionSetKey = (storeName: string) => `evalQuestions:${storeName}`;
+
+export function loadQuestionSetText(storeName: string): string {
+    return readSetting<string>(questionSetKey(storeName), '');
+}
+
+export function saveQuestionSetText(storeName: string, text: string): void {
+    writeSetting(questionSetKey(storeName), text);
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CachedFile, UploadDuplicate } from '../types';
+import { openDatabase, requestToPromise, withTransaction } from './idb';
+
+// Uploaded files are kept in IndexedDB under the document they became, so
+// documents can be uploaded again or previewed without the source folder, and
+// uploads can spot content a store already has.
+
+const DB_NAME = 'rag-sandbox-files';
+const FILES = 'files';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, 1, (db) => {
+            db.createObjectStore(FILES, { keyPath: 'docName' }).createIndex('storeName', 'storeName');
+        });
+    }
+    return dbPromise;
+}
+
+// Files can't change, so a hash worked out while checking for duplicates is
+// reused when the same file is cached after its upload.
+const fileHashes = new WeakMap<Blob, string>();
+
+export async function hashFile(file: Blob): Promise<string> {
+    const known = fileHashes.get(file);
+    if (known) return known;
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    const hash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+    fileHashes.set(file, hash);
+    return hash;
+}
+
+export async function cacheFile(storeName: string, docName: string, displayName: string, file: File): Promise<void> {
+    const entry: CachedFile = {
+        docName,
+        storeName,
+        displayName,
+        hash: await hashFile(file),
+        mimeType: file.type,
+        sizeBytes: file.size,
+        cachedAt: Date.now(),
+        content: file,
+    };
+    const db = await getDb();
+    await withTransaction(db, FILES, 'readwrite', tx => requestToPromise(tx.objectStore(FILES).put(entry)));
+}
+
+export async function getCachedFile(docName: string): Promise<File | undefined> {
+    const db = await getDb();
+    const entry = await withTransaction(db, FILES, 'readonly', tx =>
+        requestToPromise(tx.objectStore(FILES).get(docName) as IDBRequest<CachedFile | undefined>));
+    return entry && new File([entry.content], entry.displayName, { type: entry.mimeType });
+}
+
+export async function listCachedFiles(storeName: string): Promise<CachedFile[]> {
+    const db = await getDb();
+    return withTransaction(db, FILES, 'readonly', tx =>
+        requestToPromise(tx.objectStore(FILES).index('storeName').getAll(storeName) as IDBRequest<CachedFile[]>));
+}
+
+export async function renameCachedFile(docName: string, displayName: string): Promise<void> {
+    const db = await getDb();
+    await withTransaction(db, FILES, 'readwrite', async tx => {
+        const store = tx.objectStore(FILES);
+        const entry = await requestToPromise(store.get(docName) as IDBRequest<CachedFile | undefined>);
+        if (entry) store.put({ ...entry, displayName });
+    });
+}
+
+export async function evictCachedFile(docName: string): Promise<void> {
+    const db = await getDb();
+    await withTransaction(db, FILES, 'readwrite', tx => requestToPromise(tx.objectStore(FILES).delete(docName)));
+}
+
+async function evictEntries(entries: CachedFile[]): Promise<void> {
+    if (entries.length === 0) return;
+    const db = await getDb();
+    await withTransaction(db, FILES, 'readwrite', tx => {
+        entries.forEach(entry => tx.objectStore(FILES).delete(entry.docName));
+    });
+}
+
+export async function evictCachedStore(storeName: string): Promise<void> {
+    await evictEntries(await listCachedFiles(storeName));
+}
+
+/**
+ * Drops files whose documents were deleted outside this browser, given every
+ * document the store listed at `listedAt`. Files cached after that are kept,
+ * since their documents may be too new to have been listed.
+ */
+export async function pruneCachedStore(storeName: string, docNames: string[], listedAt: number): Promise<void> {
+    const existing = new Set(docNames);
+    const cached = await listCachedFiles(storeName);
+    await evictEntries(cached.filter(entry => !existing.has(entry.docName) && entry.cachedAt < listedAt));
+}
+
+/** Matches a file about to be uploaded against what the store already has. */
+export function findDuplicate(file: File, hash: string, cached: CachedFile[]): UploadDuplicate | undefined {
+    const identical = cached.find(entry => entry.hash === hash);
+    if (identical) return { file, kind: 'identical', existing: { docName: identical.docName, displayName: identical.displayName } };
+    const changed = cached.find(entry => entry.displayName === file.name);
+    if (changed) return { file, kind: 'changed', existing: { docName: changed.docName, displayName: changed.displayName } };
+    return undefined;
+}
+
+export async function findUploadDuplicates(storeName: string, files: File[]): Promise<UploadDuplicate[]> {
+    const cached = await listCachedFiles(storeName);
+    if (cached.length === 0) return [];
+    // One at a time, so a large folder isn't read into memory all at once.
+    const duplicates: UploadDuplicate[] = [];
+    for (const file of files) {
+        const duplicate = findDuplicate(file, await hashFile(file), cached);
+        if (duplicate) duplicates.push(duplicate);
+    }
+    return duplicates;
+}
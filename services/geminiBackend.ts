@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RetrievalBackend } from './retrievalBackend';
+import * as geminiService from './geminiService';
+
+export const geminiBackend: RetrievalBackend = {
+    id: 'gemini',
+    label: 'Gemini File Search',
+    description: 'Stores documents in Gemini File Search stores and answers with a Gemini model. Needs an API key.',
+    initialize: geminiService.initialize,
+    listRagStores: geminiService.listRagStores,
+    createRagStore: geminiService.createRagStore,
+    deleteRagStore: geminiService.deleteRagStore,
+    listDocuments: geminiService.listDocuments,
+    listDocumentsPage: geminiService.listDocumentsPage,
+    uploadToRagStore: geminiService.uploadToRagStore,
+    deleteDocument: geminiService.deleteDocument,
+    getDocumentFile: geminiService.getDocumentFile,
+    fileSearch: geminiService.fileSearch,
+    resumeImport: geminiService.resumeImport,
+};
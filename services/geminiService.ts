@@ -2,38 +2,65 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI, GenerateContentResponse, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { RagStore, Document, QueryResult, CustomMetadata } from '../types';
+import { GoogleGenAI, GenerateContentConfig, HarmCategory, HarmBlockThreshold, UploadToFileSearchStoreOperation, Document as GeminiDocument, File as GeminiFile, FileSearchStore } from "@google/genai";
+import { RagStore, Document, DocumentPage, DocumentState, PageOptions, QueryResult, TokenUsage, CustomMetadata, FileSearchOptions, GroundingChunk, GroundingSupport, ModelSettings, UploadOptions, PendingOperation } from '../types';
+import { DEFAULT_MODEL_SETTINGS } from './modelSettings';
+import { isDefaultChunking, withChunkingMetadata } from './chunkingPresets';
+import { OperationTimeoutError, PollOptions, pollOperation, trackPendingOperation, untrackPendingOperation } from './operationTracker';
 
 let ai: GoogleGenAI;
+let apiKey: string;
+let pollOptions: Omit<PollOptions, 'abortSignal'> = {};
 
-const safetySettings = [
-    {
-        category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_HARASSMENT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_HATE_SPEECH,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-    {
-        category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
-        threshold: HarmBlockThreshold.BLOCK_NONE,
-    },
-];
-
-
-export function initialize() {
-    if (!process.env.API_KEY) {
+export interface GeminiServiceOptions {
+    // Defaults to the key injected at build time.
+    apiKey?: string;
+    // Points the SDK at a different server, such as a local fake in tests.
+    baseUrl?: string;
+    pollOptions?: Omit<PollOptions, 'abortSignal'>;
+}
+
+function buildGenerationConfig(settings: ModelSettings): GenerateContentConfig {
+    return {
+        systemInstruction: settings.systemInstruction.trim() || undefined,
+        temperature: settings.temperature,
+        topP: settings.topP,
+        maxOutputTokens: settings.maxOutputTokens,
+        thinkingConfig: settings.thinkingBudget !== undefined ? { thinkingBudget: settings.thinkingBudget } : undefined,
+        safetySettings: Object.entries(settings.safetyThresholds).map(([category, threshold]) => ({
+            category: category as HarmCategory,
+            threshold: threshold as HarmBlockThreshold,
+        })),
+    };
+}
+
+export function initialize(options: GeminiServiceOptions = {}) {
+    apiKey = options.apiKey ?? process.env.API_KEY;
+    filesIndex = null;
+    if (!apiKey) {
         throw new Error("API_KEY environment variable not set.");
     }
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    ai = new GoogleGenAI({
+        apiKey,
+        httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined,
+    });
+    pollOptions = options.pollOptions || {};
 }
 
+const toCount = (value?: string) => value !== undefined ? Number(value) : undefined;
+
+const toRagStore = (store: FileSearchStore): RagStore => ({
+    name: store.name,
+    displayName: store.displayName || store.name.split('/').pop() || store.name,
+    createTime: store.createTime,
+    updateTime: store.updateTime,
+    activeDocumentsCount: toCount(store.activeDocumentsCount),
+    pendingDocumentsCount: toCount(store.pendingDocumentsCount),
+    failedDocumentsCount: toCount(store.failedDocumentsCount),
+    sizeBytes: toCount(store.sizeBytes),
+    embeddingModel: store.embeddingModel,
+});
+
 export async function listRagStores(): Promise<RagStore[]> {
     if (!ai) throw new Error("Gemini AI not initialized");
     // FIX: The response is a Pager, which is an async iterator and does not contain
@@ -41,30 +68,53 @@ export async function listRagStores(): Promise<RagStore[]> {
     const response = await ai.fileSearchStores.list();
     const stores: RagStore[] = [];
     for await (const store of response) {
-        stores.push({
-            name: store.name,
-            displayName: store.displayName || store.name.split('/').pop() || store.name,
-        });
+        stores.push(toRagStore(store));
     }
     return stores;
 }
 
+const DOCUMENT_STATES: Record<string, DocumentState> = {
+    STATE_ACTIVE: 'active',
+    STATE_PENDING: 'pending',
+    STATE_FAILED: 'failed',
+};
+
+const toDocument = (file: GeminiDocument): Document => ({
+    name: file.name,
+    displayName: file.displayName || file.name.split('/').pop() || file.name,
+    customMetadata: file.customMetadata,
+    state: DOCUMENT_STATES[file.state] ?? 'unknown',
+    sizeBytes: toCount(file.sizeBytes),
+    mimeType: file.mimeType,
+    createTime: file.createTime,
+    updateTime: file.updateTime,
+});
+
 export async function listDocuments(ragStoreName: string): Promise<Document[]> {
     if (!ai) throw new Error("Gemini AI not initialized");
     // FIX: The response is a Pager, which is an async iterator and does not contain
     // a `documents` property. We need to iterate over it to get the documents.
-    const response = await ai.fileSearchStores.documents.list({ parent: ragStoreName });
+    // The pager only follows `nextPageToken` when the request has a config, so
+    // an empty one is needed to get past the first page.
+    const response = await ai.fileSearchStores.documents.list({ parent: ragStoreName, config: {} });
     const documents: Document[] = [];
     for await (const file of response) {
-        documents.push({
-            name: file.name,
-            displayName: file.displayName || file.name.split('/').pop() || file.name,
-            customMetadata: file.customMetadata,
-        });
+        documents.push(toDocument(file));
     }
     return documents;
 }
 
+/** Fetches a single page of documents. The API returns at most 20 per page. */
+export async function listDocumentsPage(ragStoreName: string, options: PageOptions = {}): Promise<DocumentPage> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const pager = await ai.fileSearchStores.documents.list({
+        parent: ragStoreName,
+        config: { pageSize: options.pageSize, pageToken: options.pageToken },
+    });
+    // The pager keeps the token for the next page in its request params.
+    return { documents: pager.page.map(toDocument), nextPageToken: pager.params.config?.pageToken };
+}
+
 export async function createRagStore(displayName: string): Promise<string> {
     if (!ai) throw new Error("Gemini AI not initialized");
     const store = await ai.fileSearchStores.create({ config: { displayName } });
@@ -74,25 +124,67 @@ export async function createRagStore(displayName: string): Promise<string> {
     return store.name;
 }
 
-export async function uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[]): Promise<void> {
+export async function uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[], options: UploadOptions = {}): Promise<string | undefined> {
     if (!ai) throw new Error("Gemini AI not initialized");
-    
-    let operation = await ai.fileSearchStores.uploadToFileSearchStore({
+    const displayName = options.displayName || file.name;
+
+    const operation = await ai.fileSearchStores.uploadToFileSearchStore({
         fileSearchStoreName: ragStoreName,
         file: file,
         config: {
-            displayName: file.name,
-            customMetadata: metadata.length > 0 ? metadata : undefined,
+            displayName,
+            customMetadata: withChunkingMetadata(metadata, options.chunkingConfig),
+            chunkingConfig: isDefaultChunking(options.chunkingConfig) ? undefined : {
+                whiteSpaceConfig: {
+                    maxTokensPerChunk: options.chunkingConfig.maxTokensPerChunk,
+                    maxOverlapTokens: options.chunkingConfig.maxOverlapTokens,
+                },
+            },
+            abortSignal: options.abortSignal,
         }
     });
+    options.onIndexing?.();
+    const finished = await waitForImport(operation, { storeName: ragStoreName, displayName }, options.abortSignal);
+    return finished?.response?.documentName;
+}
 
-    // Wait until import is complete by polling the operation status.
-    while (operation && !operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 2000)); // Poll every 2 seconds
-        operation = await ai.operations.get({ operation: operation });
+/**
+ * Waits for an import to finish indexing. The operation is remembered as pending
+ * until then, so it can be resumed with `resumeImport` if the page is closed.
+ */
+async function waitForImport(
+    operation: UploadToFileSearchStoreOperation,
+    pending: Omit<PendingOperation, 'name' | 'startedAt'>,
+    abortSignal?: AbortSignal,
+): Promise<UploadToFileSearchStoreOperation | undefined> {
+    if (!operation.name) return undefined;
+    const operationName = operation.name;
+    trackPendingOperation({ name: operationName, startedAt: Date.now(), ...pending });
+    try {
+        const finished = await pollOperation(
+            operation,
+            op => ai.operations.get({ operation: op, config: { abortSignal } }) as Promise<UploadToFileSearchStoreOperation>,
+            { ...pollOptions, abortSignal },
+        );
+        untrackPendingOperation(operationName);
+        return finished;
+    } catch (err) {
+        // A timeout doesn't mean the import failed, so keep it to check again later.
+        if (!(err instanceof OperationTimeoutError)) {
+            untrackPendingOperation(operationName);
+        }
+        throw err;
     }
 }
 
+export async function resumeImport(pending: Omit<PendingOperation, 'startedAt'>, abortSignal?: AbortSignal): Promise<void> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const operation = new UploadToFileSearchStoreOperation();
+    operation.name = pending.name;
+    const current = await ai.operations.get({ operation, config: { abortSignal } }) as UploadToFileSearchStoreOperation;
+    await waitForImport(current, pending, abortSignal);
+}
+
 export async function deleteDocument(ragStoreName: string, docName: string): Promise<void> {
     if (!ai) throw new Error("Gemini AI not initialized");
     await ai.fileSearchStores.documents.delete({
@@ -103,27 +195,128 @@ export async function deleteDocument(ragStoreName: string, docName: string): Pro
     });
 }
 
-export async function fileSearch(ragStoreName: string, query: string): Promise<QueryResult> {
+// The Files API is listed once and the result reused for a few minutes, so a
+// transfer looking up every document of a store lists it once, not per document.
+const FILES_INDEX_TTL_MS = 5 * 60 * 1000;
+let filesIndex: { listedAt: number, files: Promise<Map<string, GeminiFile[]>> } | null = null;
+
+function listDownloadableFiles(): Promise<Map<string, GeminiFile[]>> {
+    if (!filesIndex || Date.now() - filesIndex.listedAt > FILES_INDEX_TTL_MS) {
+        const files = (async () => {
+            const byName = new Map<string, GeminiFile[]>();
+            const pager = await ai.files.list({ config: { pageSize: 100 } });
+            for await (const file of pager) {
+                if (!file.displayName || !file.downloadUri) continue;
+                byName.set(file.displayName, [...(byName.get(file.displayName) || []), file]);
+            }
+            return byName;
+        })();
+        const index = { listedAt: Date.now(), files };
+        filesIndex = index;
+        // A failed listing is tried again on the next lookup.
+        files.catch(() => { if (filesIndex === index) filesIndex = null; });
+    }
+    return filesIndex.files;
+}
+
+/**
+ * Looks for the document's bytes in the Files API, matching by display name
+ * and size. Uploads straight to a store never pass through it, and it keeps
+ * files for 48 hours and serves downloads for only some of them, so this finds
+ * a copy only for a matching file uploaded there separately.
+ */
+export async function getDocumentFile(ragStoreName: string, document: Document): Promise<File | undefined> {
     if (!ai) throw new Error("Gemini AI not initialized");
-    const response: GenerateContentResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [{ parts: [{ text: query }] }],
-        config: {
-            safetySettings: safetySettings,
-            tools: [
-                {
-                    fileSearch: {
-                        fileSearchStoreNames: [ragStoreName]
+    const candidates = (await listDownloadableFiles()).get(document.displayName) || [];
+    for (const file of candidates) {
+        if (document.sizeBytes !== undefined && file.sizeBytes !== undefined && Number(file.sizeBytes) !== document.sizeBytes) continue;
+        const response = await fetch(file.downloadUri!, { headers: { 'x-goog-api-key': apiKey } });
+        if (!response.ok) continue;
+        return new File([await response.blob()], document.displayName, { type: file.mimeType || document.mimeType || '' });
+    }
+    return undefined;
+}
+
+export async function fileSearch(ragStoreNames: string[], query: string, options: FileSearchOptions = {}): Promise<QueryResult> {
+    if (!ai) throw new Error("Gemini AI not initialized");
+    const history = options.history || [];
+    const settings = options.settings || DEFAULT_MODEL_SETTINGS;
+    // Earlier turns are replayed so follow-up questions keep their context.
+    // Grounding chunks are client-side only and are not sent back to the model.
+    const contents = [
+        ...history.map(message => ({ role: message.role, parts: message.parts })),
+        { role: 'user', parts: [{ text: query }] },
+    ];
+    let text = '';
+    let groundingChunks: GroundingChunk[] = [];
+    let groundingSupports: GroundingSupport[] = [];
+    let usage: TokenUsage | undefined;
+    let aborted = false;
+    const startedAt = performance.now();
+    try {
+        const stream = await ai.models.generateContentStream({
+            model: settings.model,
+            contents: contents,
+            config: {
+                ...buildGenerationConfig(settings),
+                abortSignal: options.abortSignal,
+                tools: [
+                    {
+                        fileSearch: {
+                            fileSearchStoreNames: ragStoreNames,
+                            metadataFilter: options.metadataFilter,
+                        }
                     }
-                }
-            ]
+                ]
+            }
+        });
+        for await (const chunk of stream) {
+            if (chunk.text) {
+                text += chunk.text;
+                options.onText?.(text);
+            }
+            // Grounding metadata arrives with the final chunk of the stream.
+            const metadata = chunk.candidates?.[0]?.groundingMetadata;
+            if (metadata?.groundingChunks) {
+                groundingChunks = metadata.groundingChunks;
+            }
+            if (metadata?.groundingSupports) {
+                groundingSupports = metadata.groundingSupports;
+            }
+            // Each chunk reports the running totals, so the last one wins.
+            if (chunk.usageMetadata) {
+                usage = {
+                    promptTokens: chunk.usageMetadata.promptTokenCount,
+                    candidatesTokens: chunk.usageMetadata.candidatesTokenCount,
+                    toolUsePromptTokens: chunk.usageMetadata.toolUsePromptTokenCount,
+                    thoughtsTokens: chunk.usageMetadata.thoughtsTokenCount,
+                    totalTokens: chunk.usageMetadata.totalTokenCount,
+                };
+            }
         }
-    });
+    } catch (err) {
+        // A stopped request keeps whatever text had arrived so far.
+        if (!options.abortSignal?.aborted) throw err;
+        aborted = true;
+    }
+    const latencyMs = Math.round(performance.now() - startedAt);
 
-    const groundingChunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
+    // The API doesn't always say which store a chunk came from. With a single
+    // store there is only one answer, so fill it in and every chunk can be labeled.
+    if (ragStoreNames.length === 1) {
+        groundingChunks.forEach(chunk => {
+            if (chunk.retrievedContext && !chunk.retrievedContext.fileSearchStore) {
+                chunk.retrievedContext.fileSearchStore = ragStoreNames[0];
+            }
+        });
+    }
     return {
-        text: response.text,
+        text: text,
         groundingChunks: groundingChunks,
+        groundingSupports: groundingSupports,
+        aborted: aborted || undefined,
+        usage,
+        latencyMs,
     };
 }
 
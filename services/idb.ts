@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal promise wrappers around IndexedDB, enough for the handful of object
+// stores this app keeps in the browser.
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+export function openDatabase(name: string, version: number, upgrade: (db: IDBDatabase, oldVersion: number) => void): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+        const request = indexedDB.open(name, version);
+        request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error(`Database "${name}" is open in another tab with an older version.`));
+    });
+}
+
+/**
+ * Runs `work` in a transaction and resolves with its result once the
+ * transaction has committed.
+ */
+export function withTransaction<T>(
+    db: IDBDatabase,
+    storeNames: string | string[],
+    mode: IDBTransactionMode,
+    work: (transaction: IDBTransaction) => Promise<T> | T,
+): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(storeNames, mode);
+        let result: T;
+        transaction.oncomplete = () => resolve(result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+        Promise.resolve(work(transaction)).then(value => { result = value; }, err => {
+            transaction.abort();
+            reject(err);
+        });
+    });
+}
@@ -0,0 +1,319 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, DocumentPage, PageOptions, DocumentUpdate, QueryResult, CustomMetadata, FileSearchOptions, UploadOptions, GroundingChunk, GroundingSupport } from '../types';
+import { RetrievalBackend } from './retrievalBackend';
+import { openDatabase, requestToPromise, withTransaction } from './idb';
+import { CHUNKING_METADATA_KEYS, withChunkingMetadata } from './chunkingPresets';
+import { matchesMetadataFilter } from './metadataFilter';
+
+// An offline stand-in for Gemini File Search. Stores and documents live in
+// IndexedDB; documents are split into fixed-size word windows and searched with
+// BM25. There is no model, so answers are built from the best passages.
+
+interface LocalStoreRecord {
+    name: string;
+    displayName: string;
+    createTime: string;
+}
+
+interface LocalDocumentRecord {
+    name: string;
+    storeName: string;
+    displayName: string;
+    customMetadata: CustomMetadata[];
+    mimeType: string;
+    sizeBytes: number;
+    createTime: string;
+    updateTime?: string;
+    chunks: string[];
+}
+
+const DB_NAME = 'rag-sandbox-local';
+const STORES = 'stores';
+const DOCUMENTS = 'documents';
+
+const DEFAULT_CHUNK_TOKENS = 200;
+const DEFAULT_OVERLAP_TOKENS = 20;
+const TOP_K = 5;
+const EXCERPT_LENGTH = 240;
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'html', 'htm', 'xml', 'log', 'yaml', 'yml'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, 1, (db) => {
+            db.createObjectStore(STORES, { keyPath: 'name' });
+            const documents = db.createObjectStore(DOCUMENTS, { keyPath: 'name' });
+            documents.createIndex('storeName', 'storeName');
+        });
+    }
+    return dbPromise;
+}
+
+const randomId = () => crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+
+const slugify = (text: string) =>
+    text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 27);
+
+async function extractText(file: File): Promise<string> {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    const isText = file.type.startsWith('text/') || file.type === 'application/json' || TEXT_EXTENSIONS.includes(extension);
+    if (!isText) {
+        throw new Error(`The local backend can only index text files, not ${file.type || extension || 'this file type'}.`);
+    }
+    const text = await file.text();
+    if (file.type === 'text/html' || extension === 'html' || extension === 'htm') {
+        return new DOMParser().parseFromString(text, 'text/html').body.textContent || '';
+    }
+    return text;
+}
+
+function chunkText(text: string, maxTokens: number, overlap: number): string[] {
+    const words = text.split(/\s+/).filter(Boolean);
+    const step = Math.max(1, maxTokens - overlap);
+    const chunks: string[] = [];
+    for (let start = 0; start < words.length; start += step) {
+        chunks.push(words.slice(start, start + maxTokens).join(' '));
+        if (start + maxTokens >= words.length) break;
+    }
+    return chunks;
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with']);
+
+const tokenize = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(token => !STOP_WORDS.has(token));
+
+interface ScoredChunk {
+    document: LocalDocumentRecord;
+    text: string;
+    score: number;
+}
+
+/** Okapi BM25 over the given chunks, with the usual k1 = 1.2 and b = 0.75. */
+function rankChunks(query: string, documents: LocalDocumentRecord[]): ScoredChunk[] {
+    const queryTerms = [...new Set(tokenize(query))];
+    const chunks = documents.flatMap(document => document.chunks.map(text => {
+        const terms = tokenize(text);
+        const frequencies = new Map<string, number>();
+        terms.forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+        return { document, text, length: terms.length, frequencies };
+    }));
+    if (chunks.length === 0 || queryTerms.length === 0) return [];
+
+    const averageLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0) / chunks.length;
+    const idf = new Map(queryTerms.map(term => {
+        const containing = chunks.filter(chunk => chunk.frequencies.has(term)).length;
+        return [term, Math.log(1 + (chunks.length - containing + 0.5) / (containing + 0.5))];
+    }));
+
+    const k1 = 1.2;
+    const b = 0.75;
+    return chunks
+        .map(chunk => ({
+            document: chunk.document,
+            text: chunk.text,
+            score: queryTerms.reduce((score, term) => {
+                const frequency = chunk.frequencies.get(term) || 0;
+                if (frequency === 0) return score;
+                const norm = frequency + k1 * (1 - b + b * chunk.length / (averageLength || 1));
+                return score + idf.get(term) * frequency * (k1 + 1) / norm;
+            }, 0),
+        }))
+        .filter(chunk => chunk.score > 0)
+        .sort((x, y) => y.score - x.score);
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * Builds an extractive answer listing the best passages, with a grounding
+ * support for each so citations work the same way as with Gemini.
+ */
+function buildAnswer(query: string, ranked: ScoredChunk[]): { text: string, groundingSupports: GroundingSupport[] } {
+    if (ranked.length === 0) {
+        return { text: `No passages matched "${query}" (local keyword search, no model).`, groundingSupports: [] };
+    }
+    let text = `Top ${ranked.length} passages for "${query}" (local keyword search, no model):\n\n`;
+    const groundingSupports: GroundingSupport[] = [];
+    ranked.forEach((chunk, index) => {
+        const excerpt = chunk.text.length > EXCERPT_LENGTH ? `${chunk.text.slice(0, EXCERPT_LENGTH)}…` : chunk.text;
+        const line = `${index + 1}. ${excerpt}`;
+        const startIndex = byteLength(text);
+        text += line;
+        groundingSupports.push({
+            segment: { startIndex, endIndex: startIndex + byteLength(line), text: line },
+            groundingChunkIndices: [index],
+        });
+        text += '\n';
+    });
+    return { text: text.trimEnd(), groundingSupports };
+}
+
+async function getStoreDocuments(db: IDBDatabase, ragStoreName: string): Promise<LocalDocumentRecord[]> {
+    return withTransaction(db, DOCUMENTS, 'readonly', tx =>
+        requestToPromise(tx.objectStore(DOCUMENTS).index('storeName').getAll(ragStoreName) as IDBRequest<LocalDocumentRecord[]>));
+}
+
+// Documents are indexed before they are saved, so they are always active.
+function toDocument(record: LocalDocumentRecord): Document {
+    return {
+        name: record.name,
+        displayName: record.displayName,
+        customMetadata: record.customMetadata,
+        state: 'active',
+        sizeBytes: record.sizeBytes,
+        mimeType: record.mimeType || undefined,
+        createTime: record.createTime,
+        updateTime: record.updateTime ?? record.createTime,
+    };
+}
+
+export const localBackend: RetrievalBackend = {
+    id: 'local',
+    label: 'Local (offline)',
+    description: 'Stores documents in this browser and ranks passages with BM25. No API key or network needed.',
+
+    async initialize() {
+        await getDb();
+    },
+
+    async listRagStores(): Promise<RagStore[]> {
+        const db = await getDb();
+        const [stores, documents] = await withTransaction(db, [STORES, DOCUMENTS], 'readonly', tx => Promise.all([
+            requestToPromise(tx.objectStore(STORES).getAll() as IDBRequest<LocalStoreRecord[]>),
+            requestToPromise(tx.objectStore(DOCUMENTS).getAll() as IDBRequest<LocalDocumentRecord[]>),
+        ]));
+        return stores
+            .sort((a, b) => a.createTime.localeCompare(b.createTime))
+            .map(store => {
+                const storeDocuments = documents.filter(doc => doc.storeName === store.name);
+                return {
+                    name: store.name,
+                    displayName: store.displayName,
+                    createTime: store.createTime,
+                    updateTime: storeDocuments.reduce((latest, doc) => {
+                        const time = doc.updateTime ?? doc.createTime;
+                        return time > latest ? time : latest;
+                    }, store.createTime),
+                    activeDocumentsCount: storeDocuments.length,
+                    pendingDocumentsCount: 0,
+                    failedDocumentsCount: 0,
+                    sizeBytes: storeDocuments.reduce((total, doc) => total + doc.sizeBytes, 0),
+                };
+            });
+    },
+
+    async createRagStore(displayName: string): Promise<string> {
+        const db = await getDb();
+        const name = `localStores/${slugify(displayName) || 'store'}-${randomId()}`;
+        await withTransaction(db, STORES, 'readwrite', tx =>
+            requestToPromise(tx.objectStore(STORES).put({ name, displayName, createTime: new Date().toISOString() } satisfies LocalStoreRecord)));
+        return name;
+    },
+
+    async deleteRagStore(ragStoreName: string): Promise<void> {
+        const db = await getDb();
+        const documents = await getStoreDocuments(db, ragStoreName);
+        await withTransaction(db, [STORES, DOCUMENTS], 'readwrite', tx => {
+            documents.forEach(doc => tx.objectStore(DOCUMENTS).delete(doc.name));
+            tx.objectStore(STORES).delete(ragStoreName);
+        });
+    },
+
+    async listDocuments(ragStoreName: string): Promise<Document[]> {
+        const db = await getDb();
+        const documents = await getStoreDocuments(db, ragStoreName);
+        return documents
+            .sort((a, b) => a.createTime.localeCompare(b.createTime))
+            .map(toDocument);
+    },
+
+    // Everything is local, so the page token is just the offset of the next page.
+    async listDocumentsPage(ragStoreName: string, options: PageOptions = {}): Promise<DocumentPage> {
+        const documents = await localBackend.listDocuments(ragStoreName);
+        const start = Number(options.pageToken) || 0;
+        const end = start + (options.pageSize || documents.length);
+        return {
+            documents: documents.slice(start, end),
+            nextPageToken: end < documents.length ? String(end) : undefined,
+        };
+    },
+
+    async uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[], options: UploadOptions = {}): Promise<string | undefined> {
+        const text = await extractText(file);
+        options.abortSignal?.throwIfAborted();
+        options.onIndexing?.();
+        const chunks = chunkText(
+            text,
+            options.chunkingConfig?.maxTokensPerChunk ?? DEFAULT_CHUNK_TOKENS,
+            options.chunkingConfig?.maxOverlapTokens ?? DEFAULT_OVERLAP_TOKENS,
+        );
+        const record: LocalDocumentRecord = {
+            name: `${ragStoreName}/documents/${slugify(options.displayName || file.name) || 'document'}-${randomId()}`,
+            storeName: ragStoreName,
+            displayName: options.displayName || file.name,
+            customMetadata: withChunkingMetadata(metadata, options.chunkingConfig),
+            mimeType: file.type,
+            sizeBytes: file.size,
+            createTime: new Date().toISOString(),
+            chunks,
+        };
+        const db = await getDb();
+        options.abortSignal?.throwIfAborted();
+        await withTransaction(db, DOCUMENTS, 'readwrite', tx => requestToPromise(tx.objectStore(DOCUMENTS).put(record)));
+        return record.name;
+    },
+
+    // Chunks don't depend on metadata, so edits apply in place without re-chunking.
+    async updateDocument(ragStoreName: string, docName: string, update: DocumentUpdate): Promise<void> {
+        const db = await getDb();
+        await withTransaction(db, DOCUMENTS, 'readwrite', async tx => {
+            const store = tx.objectStore(DOCUMENTS);
+            const record = await requestToPromise(store.get(docName) as IDBRequest<LocalDocumentRecord | undefined>);
+            if (!record || record.storeName !== ragStoreName) throw new Error(`Document ${docName} not found`);
+            const chunkingKeys = Object.values(CHUNKING_METADATA_KEYS);
+            store.put({
+                ...record,
+                displayName: update.displayName,
+                updateTime: new Date().toISOString(),
+                customMetadata: [
+                    ...update.customMetadata.filter(meta => !chunkingKeys.includes(meta.key)),
+                    ...record.customMetadata.filter(meta => chunkingKeys.includes(meta.key)),
+                ],
+            } satisfies LocalDocumentRecord);
+        });
+    },
+
+    async deleteDocument(ragStoreName: string, docName: string): Promise<void> {
+        const db = await getDb();
+        await withTransaction(db, DOCUMENTS, 'readwrite', tx => requestToPromise(tx.objectStore(DOCUMENTS).delete(docName)));
+    },
+
+    async fileSearch(ragStoreNames: string[], query: string, options: FileSearchOptions = {}): Promise<QueryResult> {
+        const startedAt = performance.now();
+        const db = await getDb();
+        let documents = (await Promise.all(ragStoreNames.map(name => getStoreDocuments(db, name)))).flat();
+        if (options.metadataFilter) {
+            documents = documents.filter(doc => matchesMetadataFilter(options.metadataFilter, doc.customMetadata));
+        }
+        const ranked = rankChunks(query, documents).slice(0, TOP_K);
+        const { text, groundingSupports } = buildAnswer(query, ranked);
+        const groundingChunks: GroundingChunk[] = ranked.map(chunk => ({
+            retrievedContext: {
+                text: chunk.text,
+                title: chunk.document.displayName,
+                uri: chunk.document.name,
+                documentName: chunk.document.name,
+                fileSearchStore: chunk.document.storeName,
+                customMetadata: chunk.document.customMetadata,
+            },
+        }));
+        options.onText?.(text);
+        return { text, groundingChunks, groundingSupports, latencyMs: Math.round(performance.now() - startedAt), answeredBy: localBackend.label };
+    },
+};
@@ -0,0 +1,25 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Small helpers around localStorage for settings kept in the browser. Values are
+// stored as JSON; anything missing or unreadable falls back to the default.
+
+export function readSetting<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw === null ? fallback : JSON.parse(raw) as T;
+    } catch (err) {
+        console.warn(`Ignoring unreadable setting "${key}"`, err);
+        return fallback;
+    }
+}
+
+export function writeSetting<T>(key: string, value: T): void {
+    localStorage.setItem(key, JSON.stringify(value));
+}
+
+export function removeSetting(key: string): void {
+    localStorage.removeItem(key);
+}
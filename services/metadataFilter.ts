@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CustomMetadata, Document, MetadataFilter, MetadataFilterCondition, MetadataKeyInfo, MetadataValueType } from '../types';
+
+export function getMetadataValueType(meta: CustomMetadata): MetadataValueType {
+    if (meta.numericValue !== undefined) return 'numeric';
+    if (meta.stringListValue !== undefined) return 'stringList';
+    return 'string';
+}
+
+export function getMetadataValues(meta: CustomMetadata): string[] {
+    if (meta.numericValue !== undefined) return [String(meta.numericValue)];
+    if (meta.stringListValue !== undefined) return meta.stringListValue.values || [];
+    return meta.stringValue !== undefined ? [meta.stringValue] : [];
+}
+
+export function formatMetadataValue(meta: CustomMetadata): string {
+    return getMetadataValues(meta).join(', ');
+}
+
+/**
+ * Collects the metadata keys present on the given documents, along with the
+ * value type and the distinct values seen for each key. If a key appears with
+ * mixed types, the first type seen wins.
+ */
+export function collectMetadataKeys(documents: Document[]): MetadataKeyInfo[] {
+    const keys = new Map<string, { valueType: MetadataValueType, values: Set<string> }>();
+    for (const doc of documents) {
+        for (const meta of doc.customMetadata || []) {
+            if (!meta.key) continue;
+            const info = keys.get(meta.key) || { valueType: getMetadataValueType(meta), values: new Set<string>() };
+            keys.set(meta.key, info);
+            getMetadataValues(meta).forEach(value => info.values.add(value));
+        }
+    }
+    return [...keys.entries()]
+        .map(([key, info]) => ({
+            key,
+            valueType: info.valueType,
+            values: [...info.values].sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+        }))
+        .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+function formatValue(condition: MetadataFilterCondition, value: string): string | null {
+    if (condition.valueType !== 'numeric') return quote(value);
+    const number = Number(value);
+    return value.trim() !== '' && Number.isFinite(number) ? String(number) : null;
+}
+
+// String lists are matched with the `:` (has) operator, everything else with `=`.
+function formatMatch(condition: MetadataFilterCondition, value: string): string | null {
+    const formatted = formatValue(condition, value);
+    if (formatted === null) return null;
+    return condition.valueType === 'stringList'
+        ? `${condition.key}:${formatted}`
+        : `${condition.key} = ${formatted}`;
+}
+
+function buildCondition(condition: MetadataFilterCondition): string | null {
+    if (!condition.key) return null;
+    if (condition.operator === 'range') {
+        const bounds: string[] = [];
+        if (condition.min !== undefined && Number.isFinite(condition.min)) bounds.push(`${condition.key} >= ${condition.min}`);
+        if (condition.max !== undefined && Number.isFinite(condition.max)) bounds.push(`${condition.key} <= ${condition.max}`);
+        if (bounds.length === 0) return null;
+        return bounds.length > 1 ? `(${bounds.join(' AND ')})` : bounds[0];
+    }
+
+    const values = condition.values.filter(value => value.trim() !== '');
+    if (condition.operator === 'eq') values.splice(1);
+    const matches = values
+        .map(value => formatMatch(condition, value))
+        .filter((match): match is string => match !== null);
+    if (matches.length === 0) return null;
+    return matches.length > 1 ? `(${matches.join(' OR ')})` : matches[0];
+}
+
+/**
+ * Turns the filter into the metadata filter expression accepted by the
+ * fileSearch tool, e.g. `customer = "acme" AND (year >= 2020 AND year <= 2023)`.
+ * Incomplete conditions are skipped. Returns undefined when nothing is left.
+ */
+export function buildMetadataFilter(filter: MetadataFilter): string | undefined {
+    const parts = filter.conditions
+        .map(buildCondition)
+        .filter((part): part is string => part !== null);
+    if (parts.length === 0) return undefined;
+    return parts.join(` ${filter.combinator} `);
+}
+
+type Token =
+    | { type: 'paren', value: '(' | ')' }
+    | { type: 'op', value: string }
+    | { type: 'logic', value: 'AND' | 'OR' }
+    | { type: 'string', value: string }
+    | { type: 'word', value: string };
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < expression.length) {
+        const char = expression[i];
+        if (/\s/.test(char)) {
+            i++;
+        } else if (char === '(' || char === ')') {
+            tokens.push({ type: 'paren', value: char });
+            i++;
+        } else if (char === '"') {
+            let value = '';
+            i++;
+            while (i < expression.length && expression[i] !== '"') {
+                if (expression[i] === '\\') i++;
+                value += expression[i++];
+            }
+            if (i >= expression.length) throw new Error('Unterminated string in metadata filter');
+            tokens.push({ type: 'string', value });
+            i++;
+        } else {
+            const op = /^(<=|>=|!=|=|<|>|:)/.exec(expression.slice(i));
+            if (op) {
+                tokens.push({ type: 'op', value: op[1] });
+                i += op[1].length;
+                continue;
+            }
+            const word = /^[^\s()"<>=!:]+/.exec(expression.slice(i));
+            if (!word) throw new Error(`Unexpected "${char}" in metadata filter`);
+            tokens.push(word[0] === 'AND' || word[0] === 'OR'
+                ? { type: 'logic', value: word[0] }
+                : { type: 'word', value: word[0] });
+            i += word[0].length;
+        }
+    }
+    return tokens;
+}
+
+function compare(meta: CustomMetadata, op: string, value: Token): boolean {
+    if (meta.numericValue !== undefined) {
+        const number = Number(value.value);
+        if (value.type === 'string' || !Number.isFinite(number)) return false;
+        switch (op) {
+            case '=': case ':': return meta.numericValue === number;
+            case '!=': return meta.numericValue !== number;
+            case '<': return meta.numericValue < number;
+            case '<=': return meta.numericValue <= number;
+            case '>': return meta.numericValue > number;
+            case '>=': return meta.numericValue >= number;
+        }
+        return false;
+    }
+    const values = getMetadataValues(meta);
+    switch (op) {
+        case '=': case ':': return values.includes(value.value);
+        case '!=': return !values.includes(value.value);
+    }
+    return false;
+}
+
+/**
+ * Evaluates a filter expression (as produced by `buildMetadataFilter`) against a
+ * document's metadata. Supports comparisons, `:` for list membership, AND/OR
+ * and parentheses, with AND binding tighter than OR. Throws on syntax errors.
+ */
+export function matchesMetadataFilter(expression: string, metadata: CustomMetadata[]): boolean {
+    const tokens = tokenize(expression);
+    let position = 0;
+    const next = () => tokens[position++];
+    const peek = () => tokens[position];
+
+    const parseComparison = (): boolean => {
+        const token = next();
+        if (token?.type === 'paren' && token.value === '(') {
+            const result = parseOr();
+            const close = next();
+            if (close?.type !== 'paren' || close.value !== ')') throw new Error('Missing ")" in metadata filter');
+            return result;
+        }
+        const op = next();
+        const value = next();
+        if (token?.type !== 'word' || op?.type !== 'op' || (value?.type !== 'string' && value?.type !== 'word')) {
+            throw new Error('Expected a comparison such as key = "value" in metadata filter');
+        }
+        const meta = metadata.find(m => m.key === token.value);
+        return meta ? compare(meta, op.value, value) : false;
+    };
+
+    const parseAnd = (): boolean => {
+        let result = parseComparison();
+        while (peek()?.type === 'logic' && peek().value === 'AND') {
+            next();
+            // Evaluate both sides so the whole expression is checked for syntax errors.
+            const right = parseComparison();
+            result = result && right;
+        }
+        return result;
+    };
+
+    const parseOr = (): boolean => {
+        let result = parseAnd();
+        while (peek()?.type === 'logic' && peek().value === 'OR') {
+            next();
+            const right = parseAnd();
+            result = result || right;
+        }
+        return result;
+    };
+
+    const result = parseOr();
+    if (position < tokens.length) throw new Error('Unexpected input at the end of metadata filter');
+    return result;
+}
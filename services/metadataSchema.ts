@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CustomMetadata, Document, MetadataFieldSchema } from '../types';
+import { readSetting, writeSetting } from './localSettings';
+import { collectMetadataKeys } from './metadataFilter';
+import { MetadataDraft, fromMetadataDrafts, splitListValue } from './documentUpdate';
+
+const schemaKey = (storeName: string) => `metadataSchema:${storeName}`;
+
+export function loadMetadataSchema(storeName: string): MetadataFieldSchema[] {
+    return readSetting<MetadataFieldSchema[]>(schemaKey(storeName), []);
+}
+
+export function saveMetadataSchema(storeName: string, schema: MetadataFieldSchema[]): void {
+    writeSetting(schemaKey(storeName), schema);
+}
+
+/** A starting schema with the keys and types already used by the store's documents. */
+export function inferMetadataSchema(documents: Document[]): MetadataFieldSchema[] {
+    return collectMetadataKeys(documents).map(info => ({ key: info.key, valueType: info.valueType, required: false, allowedValues: [] }));
+}
+
+/**
+ * Puts a draft for every schema field first, in schema order and with the
+ * schema's type, keeping any values already entered. Other drafts follow.
+ */
+export function applySchemaToDrafts(schema: MetadataFieldSchema[], drafts: MetadataDraft[]): MetadataDraft[] {
+    const fields = schema.map(field => {
+        const existing = drafts.find(draft => draft.key.trim() === field.key);
+        return { key: field.key, valueType: field.valueType, value: existing?.value ?? '' };
+    });
+    const schemaKeys = new Set(schema.map(field => field.key));
+    return [...fields, ...drafts.filter(draft => !schemaKeys.has(draft.key.trim()))];
+}
+
+/**
+ * Converts drafts to metadata like `fromMetadataDrafts`, and also checks them
+ * against the schema: required fields, types and allowed values. Optional
+ * schema fields left empty are dropped rather than saved blank.
+ */
+export function validateMetadata(schema: MetadataFieldSchema[], drafts: MetadataDraft[]): { metadata: CustomMetadata[], errors: string[] } {
+    const errors: string[] = [];
+    const filled = drafts.filter(draft => {
+        const field = schema.find(f => f.key === draft.key.trim());
+        const isEmpty = draft.value.trim() === '' || (draft.valueType === 'stringList' && splitListValue(draft.value).length === 0);
+        if (!field || !isEmpty) return true;
+        if (field.required) errors.push(`"${field.key}" is required.`);
+        return false;
+    });
+    for (const draft of filled) {
+        const field = schema.find(f => f.key === draft.key.trim());
+        if (!field) continue;
+        if (draft.valueType !== field.valueType) {
+            errors.push(`"${field.key}" must be a ${field.valueType === 'stringList' ? 'list' : field.valueType === 'numeric' ? 'number' : 'text value'}.`);
+            continue;
+        }
+        if (field.valueType === 'numeric' || field.allowedValues.length === 0) continue;
+        const values = field.valueType === 'stringList' ? splitListValue(draft.value) : [draft.value.trim()];
+        const notAllowed = values.filter(value => !field.allowedValues.includes(value));
+        if (notAllowed.length > 0) {
+            errors.push(`"${field.key}" doesn't allow ${notAllowed.map(value => `"${value}"`).join(', ')}.`);
+        }
+    }
+    const converted = fromMetadataDrafts(filled);
+    return { metadata: converted.metadata, errors: [...errors, ...converted.errors] };
+}
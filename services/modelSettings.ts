@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ModelSettings, SafetyThreshold } from '../types';
+import { readSetting, writeSetting } from './localSettings';
+
+export const MODEL_OPTIONS = [
+    'gemini-2.5-flash',
+    'gemini-2.5-flash-lite',
+    'gemini-2.5-pro',
+];
+
+export const SAFETY_CATEGORIES: { category: string, label: string }[] = [
+    { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', label: 'Dangerous content' },
+    { category: 'HARM_CATEGORY_HARASSMENT', label: 'Harassment' },
+    { category: 'HARM_CATEGORY_HATE_SPEECH', label: 'Hate speech' },
+    { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', label: 'Sexually explicit' },
+];
+
+export const SAFETY_THRESHOLDS: { threshold: SafetyThreshold, label: string }[] = [
+    { threshold: 'BLOCK_NONE', label: 'Block none' },
+    { threshold: 'BLOCK_ONLY_HIGH', label: 'Block only high' },
+    { threshold: 'BLOCK_MEDIUM_AND_ABOVE', label: 'Block medium and above' },
+    { threshold: 'BLOCK_LOW_AND_ABOVE', label: 'Block low and above' },
+];
+
+export const DEFAULT_MODEL_SETTINGS: ModelSettings = {
+    model: 'gemini-2.5-flash',
+    systemInstruction: '',
+    safetyThresholds: Object.fromEntries(
+        SAFETY_CATEGORIES.map(({ category }) => [category, 'BLOCK_NONE' as SafetyThreshold])
+    ),
+};
+
+const settingsKey = (storeName: string) => `modelSettings:${storeName}`;
+
+export function loadModelSettings(storeName: string): ModelSettings {
+    const saved = readSetting<Partial<ModelSettings>>(settingsKey(storeName), {});
+    return {
+        ...DEFAULT_MODEL_SETTINGS,
+        ...saved,
+        safetyThresholds: { ...DEFAULT_MODEL_SETTINGS.safetyThresholds, ...saved.safetyThresholds },
+    };
+}
+
+export function saveModelSettings(storeName: string, settings: ModelSettings): void {
+    writeSetting(settingsKey(storeName), settings);
+}
@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PendingOperation } from '../types';
+import { readSetting, writeSetting } from './localSettings';
+
+/** The parts of a long-running operation the tracker looks at. */
+export interface OperationStatus {
+    name?: string;
+    done?: boolean;
+    error?: Record<string, unknown>;
+}
+
+export interface PollOptions {
+    initialDelayMs?: number;
+    maxDelayMs?: number;
+    backoffFactor?: number;
+    // Overall deadline, measured from the start of polling.
+    timeoutMs?: number;
+    abortSignal?: AbortSignal;
+}
+
+export class OperationFailedError extends Error {
+    constructor(
+        readonly operationName: string,
+        readonly code: number | undefined,
+        readonly details: Record<string, unknown>,
+    ) {
+        super(`${typeof details.message === 'string' ? details.message : 'Operation failed'}${code !== undefined ? ` (code ${code})` : ''}`);
+        this.name = 'OperationFailedError';
+    }
+}
+
+export class OperationTimeoutError extends Error {
+    constructor(readonly operationName: string, readonly timeoutMs: number) {
+        super(`Gave up waiting after ${Math.round(timeoutMs / 1000)}s. The import may still finish; it will be checked again on the next reload.`);
+        this.name = 'OperationTimeoutError';
+    }
+}
+
+const DEFAULT_POLL_OPTIONS: Required<Omit<PollOptions, 'abortSignal'>> = {
+    initialDelayMs: 1000,
+    maxDelayMs: 15000,
+    backoffFactor: 1.5,
+    timeoutMs: 15 * 60 * 1000,
+};
+
+const sleep = (ms: number, abortSignal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    abortSignal?.throwIfAborted();
+    const timeout = setTimeout(() => {
+        abortSignal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timeout);
+        reject(abortSignal.reason);
+    };
+    abortSignal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Polls an operation with exponential backoff until it is done. Resolves with
+ * the finished operation, or rejects with `OperationFailedError` if it finished
+ * with an error and `OperationTimeoutError` if the deadline passes first.
+ */
+export async function pollOperation<T extends OperationStatus>(
+    operation: T,
+    getOperation: (operation: T) => Promise<T>,
+    options: PollOptions = {},
+): Promise<T> {
+    const { initialDelayMs, maxDelayMs, backoffFactor, timeoutMs } = { ...DEFAULT_POLL_OPTIONS, ...options };
+    const deadline = Date.now() + timeoutMs;
+    let delay = initialDelayMs;
+    let current = operation;
+    while (!current.done) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+            throw new OperationTimeoutError(operation.name || 'unknown operation', timeoutMs);
+        }
+        await sleep(Math.min(delay, remaining), options.abortSignal);
+        current = await getOperation(current);
+        delay = Math.min(delay * backoffFactor, maxDelayMs);
+    }
+    if (current.error) {
+        const code = typeof current.error.code === 'number' ? current.error.code : undefined;
+        throw new OperationFailedError(current.name || operation.name || 'unknown operation', code, current.error);
+    }
+    return current;
+}
+
+// Operations are remembered in localStorage until they finish, so imports that
+// were running when the tab closed can be picked up again after a reload.
+const PENDING_OPERATIONS_KEY = 'pendingOperations';
+
+export function listPendingOperations(): PendingOperation[] {
+    return readSetting<PendingOperation[]>(PENDING_OPERATIONS_KEY, []);
+}
+
+// This is only bookkeeping, so a failed write (usually a full localStorage) is
+// logged and never fails the import it describes.
+function savePendingOperations(operations: PendingOperation[]): void {
+    try {
+        writeSetting(PENDING_OPERATIONS_KEY, operations);
+    } catch (err) {
+        console.error('Failed to save pending operations', err);
+    }
+}
+
+export function trackPendingOperation(operation: PendingOperation): void {
+    const pending = listPendingOperations().filter(op => op.name !== operation.name);
+    savePendingOperations([...pending, operation]);
+}
+
+export function untrackPendingOperation(name: string): void {
+    savePendingOperations(listPendingOperations().filter(op => op.name !== name));
+}
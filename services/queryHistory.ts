@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { QueryHistoryEntry } from '../types';
+import { openDatabase, requestToPromise, withTransaction } from './idb';
+
+// Every chat query is kept in IndexedDB, since results with their grounding
+// chunks quickly outgrow localStorage.
+
+const DB_NAME = 'rag-sandbox-history';
+const QUERIES = 'queries';
+// Oldest unpinned entries beyond this are dropped.
+const MAX_ENTRIES = 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function getDb(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = openDatabase(DB_NAME, 1, (db) => {
+            db.createObjectStore(QUERIES, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        });
+    }
+    return dbPromise;
+}
+
+/** All entries, newest first. */
+export async function listHistory(): Promise<QueryHistoryEntry[]> {
+    const db = await getDb();
+    const entries = await withTransaction(db, QUERIES, 'readonly', tx =>
+        requestToPromise(tx.objectStore(QUERIES).index('timestamp').getAll() as IDBRequest<QueryHistoryEntry[]>));
+    return entries.reverse();
+}
+
+export async function addHistoryEntry(entry: QueryHistoryEntry): Promise<void> {
+    const db = await getDb();
+    const entries = await listHistory();
+    const excess = entries.filter(e => !e.pinned).slice(MAX_ENTRIES - 1);
+    await withTransaction(db, QUERIES, 'readwrite', tx => {
+        const store = tx.objectStore(QUERIES);
+        excess.forEach(e => store.delete(e.id));
+        store.put(entry);
+    });
+}
+
+export async function setHistoryPinned(id: string, pinned: boolean): Promise<void> {
+    const db = await getDb();
+    await withTransaction(db, QUERIES, 'readwrite', async tx => {
+        const store = tx.objectStore(QUERIES);
+        const entry = await requestToPromise(store.get(id) as IDBRequest<QueryHistoryEntry | undefined>);
+        if (entry) store.put({ ...entry, pinned });
+    });
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+    const db = await getDb();
+    await withTransaction(db, QUERIES, 'readwrite', tx => requestToPromise(tx.objectStore(QUERIES).delete(id)));
+}
+
+/** Deletes every entry that isn't pinned. */
+export async function clearHistory(): Promise<void> {
+    const db = await getDb();
+    const unpinned = (await listHistory()).filter(entry => !entry.pinned);
+    await withTransaction(db, QUERIES, 'readwrite', tx => {
+        unpinned.forEach(entry => tx.objectStore(QUERIES).delete(entry.id));
+    });
+}
+
+/**
+ * Filters entries to those that searched `storeName` (if given) and contain
+ * every word of `text` in the query or the answer. Pinned entries come first.
+ */
+export function searchHistory(entries: QueryHistoryEntry[], text: string, storeName?: string): QueryHistoryEntry[] {
+    const terms = text.toLowerCase().split(/\s+/).filter(Boolean);
+    const matches = entries.filter(entry => {
+        if (storeName && !entry.stores.some(store => store.name === storeName)) return false;
+        const haystack = `${entry.query}\n${entry.result.text}`.toLowerCase();
+        return terms.every(term => haystack.includes(term));
+    });
+    return [...matches.filter(entry => entry.pinned), ...matches.filter(entry => !entry.pinned)];
+}
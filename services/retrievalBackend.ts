@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RagStore, Document, DocumentPage, PageOptions, DocumentUpdate, QueryResult, CustomMetadata, FileSearchOptions, UploadOptions, PendingOperation } from '../types';
+
+export type BackendId = 'gemini' | 'local';
+
+/**
+ * Everything the app needs from a retrieval service: managing stores and their
+ * documents, and searching them. `App` talks to whichever backend is selected
+ * and never to a service module directly.
+ */
+export interface RetrievalBackend {
+    id: BackendId;
+    label: string;
+    description: string;
+    initialize(): void | Promise<void>;
+    listRagStores(): Promise<RagStore[]>;
+    createRagStore(displayName: string): Promise<string>;
+    deleteRagStore(ragStoreName: string): Promise<void>;
+    // Every document in the store; may take many requests for large stores.
+    listDocuments(ragStoreName: string): Promise<Document[]>;
+    listDocumentsPage(ragStoreName: string, options?: PageOptions): Promise<DocumentPage>;
+    // Resolves with the new document's name, where the backend reports it.
+    uploadToRagStore(ragStoreName: string, file: File, metadata: CustomMetadata[], options?: UploadOptions): Promise<string | undefined>;
+    deleteDocument(ragStoreName: string, docName: string): Promise<void>;
+    // The original bytes of a document, where the backend can still get them.
+    getDocumentFile?(ragStoreName: string, document: Document): Promise<File | undefined>;
+    // Backends without it can only change a document by uploading it again.
+    updateDocument?(ragStoreName: string, docName: string, update: DocumentUpdate): Promise<void>;
+    fileSearch(ragStoreNames: string[], query: string, options?: FileSearchOptions): Promise<QueryResult>;
+    // Only backends with server-side long-running imports can resume them.
+    resumeImport?(pending: Omit<PendingOperation, 'startedAt'>, abortSignal?: AbortSignal): Promise<void>;
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChatMessage, ExportedSession } from '../types';
+import { findCitations } from './citations';
+import { formatMetadataValue } from './metadataFilter';
+
+const SESSION_VERSION = 1;
+
+export function createSessionExport(session: Omit<ExportedSession, 'version' | 'exportedAt'>): ExportedSession {
+    return { version: SESSION_VERSION, exportedAt: new Date().toISOString(), ...session };
+}
+
+export function sessionToJson(session: ExportedSession): string {
+    return JSON.stringify(session, null, 2);
+}
+
+/** Reads a session exported with `sessionToJson`, rejecting anything that isn't one. */
+export function parseSessionJson(text: string): ExportedSession {
+    let session: ExportedSession;
+    try {
+        session = JSON.parse(text);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (session?.version !== SESSION_VERSION) {
+        throw new Error(session?.version ? `Unsupported session version ${session.version}.` : 'The file is not an exported session.');
+    }
+    if (!session.store?.name || !Array.isArray(session.thread?.messages)) {
+        throw new Error('The session is missing its store or messages.');
+    }
+    return {
+        ...session,
+        searchStores: session.searchStores || [session.store],
+        documents: session.documents || [],
+    };
+}
+
+const messageText = (message: ChatMessage) => message.parts.map(part => part.text).join('');
+
+const quote = (text: string) => text.trim().split('\n').map(line => `> ${line}`).join('\n');
+
+// Citation markers use the same numbers as the Sources list: chunk index + 1.
+function answerWithCitations(message: ChatMessage): string {
+    const text = messageText(message);
+    let result = '';
+    let cursor = 0;
+    for (const citation of findCitations(text, message.groundingSupports || [])) {
+        result += text.slice(cursor, citation.position) + citation.chunkIndices.map(i => `[${i + 1}]`).join('');
+        cursor = citation.position;
+    }
+    return result + text.slice(cursor);
+}
+
+export function sessionToMarkdown(session: ExportedSession): string {
+    const storeName = (name?: string) => session.searchStores.find(s => s.name === name)?.displayName || name?.split('/').pop();
+    const settings = session.modelSettings;
+    const lines = [
+        `# ${session.thread.title || 'Query session'}`,
+        '',
+        `- Exported: ${new Date(session.exportedAt).toLocaleString()}`,
+        `- Stores: ${session.searchStores.map(s => `${s.displayName} (\`${s.name}\`)`).join(', ')}`,
+        `- Model: ${settings.model}${settings.temperature !== undefined ? `, temperature ${settings.temperature}` : ''}${settings.topP !== undefined ? `, top-p ${settings.topP}` : ''}`,
+        `- Documents in ${session.store.displayName}: ${session.documents.length}`,
+    ];
+    if (settings.systemInstruction.trim()) {
+        lines.push('', '**System instruction**', '', quote(settings.systemInstruction));
+    }
+
+    let questionNumber = 0;
+    for (const message of session.thread.messages) {
+        if (message.role === 'user') {
+            questionNumber++;
+            lines.push('', `## Q${questionNumber}. ${messageText(message)}`);
+            if (message.metadataFilter) lines.push('', `Metadata filter: \`${message.metadataFilter}\``);
+            continue;
+        }
+        const details = [message.answeredBy ?? message.settings?.model, message.aborted ? 'stopped before completion' : undefined].filter(Boolean);
+        lines.push('', `**Answer**${details.length > 0 ? ` (${details.join(', ')})` : ''}`, '', answerWithCitations(message));
+
+        const chunks = message.groundingChunks || [];
+        if (chunks.length > 0) {
+            lines.push('', '**Sources**', '');
+            chunks.forEach((chunk, index) => {
+                const context = chunk.retrievedContext;
+                if (!context) return;
+                const store = context.fileSearchStore && session.searchStores.length > 1 ? ` — ${storeName(context.fileSearchStore)}` : '';
+                const metadata = (context.customMetadata || []).filter(meta => meta.key).map(meta => `${meta.key}: ${formatMetadataValue(meta)}`);
+                lines.push(`${index + 1}. **${context.title || 'Untitled'}**${store}${metadata.length > 0 ? ` (${metadata.join('; ')})` : ''}`);
+                if (context.text) lines.push('', quote(context.text).replace(/^/gm, '   '), '');
+            });
+        }
+    }
+    return lines.join('\n').replace(/\n{3,}/g, '\n\n') + '\n';
+}
+
+const fileNameSlug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40) || 'session';
+
+export function sessionFileName(session: ExportedSession, extension: 'json' | 'md'): string {
+    return `${fileNameSlug(session.thread.title || session.store.displayName)}-${session.exportedAt.slice(0, 10)}.${extension}`;
+}
+
+export function downloadText(fileName: string, text: string, mimeType: string): void {
+    const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
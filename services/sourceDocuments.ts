@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Document, GroundingChunk } from '../types';
+
+const documentId = (name: string) => name.split('/').pop() || name;
+
+/**
+ * Finds the loaded document a grounding chunk was retrieved from. Resource
+ * references (document name or URI) are preferred; the title is only used as
+ * a fallback, since display names don't have to be unique.
+ */
+export function findSourceDocument(chunk: GroundingChunk, documents: Document[]): Document | undefined {
+    const context = chunk.retrievedContext;
+    if (!context) return undefined;
+    const candidates = context.fileSearchStore
+        ? documents.filter(doc => doc.name.startsWith(`${context.fileSearchStore}/`))
+        : documents;
+
+    const references = [context.documentName, context.uri].filter((ref): ref is string => !!ref);
+    for (const ref of references) {
+        const match = candidates.find(doc => doc.name === ref || documentId(doc.name) === documentId(ref));
+        if (match) return match;
+    }
+    if (context.title) {
+        return candidates.find(doc => doc.displayName === context.title);
+    }
+    return undefined;
+}
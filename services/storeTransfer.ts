@@ -0,0 +1,169 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChunkingConfig, Document, RagStore, StoreTransferItem, StoreTransferJob } from '../types';
+import { RetrievalBackend } from './retrievalBackend';
+import { BULK_CONCURRENCY, runBulkOperation } from './bulkOperations';
+import { chunkingConfigFromMetadata } from './chunkingPresets';
+import { readSetting, removeSetting, writeSetting } from './localSettings';
+
+const TRANSFER_JOB_KEY = 'storeTransferJob';
+const SAVE_INTERVAL_MS = 1000;
+
+export function loadTransferJob(): StoreTransferJob | null {
+    return readSetting<StoreTransferJob | null>(TRANSFER_JOB_KEY, null);
+}
+
+/**
+ * Saves the job's progress without its documents, which would make large jobs
+ * too big for localStorage. A failed save is only logged: the transfer goes on,
+ * it just can't be resumed from this point after a reload.
+ */
+export function saveTransferJob(job: StoreTransferJob): void {
+    try {
+        writeSetting(TRANSFER_JOB_KEY, { ...job, items: job.items.map(({ document, ...item }) => item) });
+    } catch (err) {
+        console.error('Failed to save the transfer job', err);
+    }
+}
+
+/**
+ * Saves a running job at most once a second, keeping only its latest state.
+ * `flush` saves any state still waiting, for when the run ends.
+ */
+export function createTransferJobSaver(): { save: (job: StoreTransferJob) => void, flush: () => void } {
+    let pending: StoreTransferJob | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const flush = () => {
+        clearTimeout(timer);
+        timer = undefined;
+        if (pending) saveTransferJob(pending);
+        pending = null;
+    };
+    return {
+        save: job => {
+            pending = job;
+            timer ??= setTimeout(flush, SAVE_INTERVAL_MS);
+        },
+        flush,
+    };
+}
+
+export function clearTransferJob(): void {
+    removeSetting(TRANSFER_JOB_KEY);
+}
+
+export function createTransferJob(options: {
+    label: string,
+    backendId: string,
+    sourceStore: RagStore,
+    targetStore: RagStore,
+    documents: Document[],
+    chunkingConfig?: ChunkingConfig,
+    deleteSource: boolean,
+}): StoreTransferJob {
+    const { documents, sourceStore, targetStore, ...rest } = options;
+    return {
+        ...rest,
+        id: crypto.randomUUID(),
+        sourceStore: { name: sourceStore.name, displayName: sourceStore.displayName },
+        targetStore: { name: targetStore.name, displayName: targetStore.displayName },
+        uploadedDocNames: [],
+        items: documents.map(document => ({ docName: document.name, displayName: document.displayName, status: 'queued', document })),
+        startedAt: Date.now(),
+    };
+}
+
+export const hasUnfinishedItems = (job: StoreTransferJob) => job.items.some(item => item.status !== 'done');
+
+/**
+ * Queues everything not done yet, with its document from `sourceDocuments`
+ * where a saved job no longer has it. Items still marked running were cut off
+ * by a reload; if a copy with the same name appeared in the target since the
+ * job started, the upload is taken as done so it isn't made twice.
+ */
+export function prepareTransferResume(job: StoreTransferJob, targetDocuments: Document[], sourceDocuments: Document[] = []): StoreTransferJob {
+    const sourceByName = new Map(sourceDocuments.map(document => [document.name, document]));
+    const uploadedNames = new Set(targetDocuments
+        .filter(doc => !doc.createTime || Date.parse(doc.createTime) >= job.startedAt)
+        .map(doc => doc.displayName));
+    const interrupted = job.items.filter(item => item.status === 'running' && uploadedNames.has(item.displayName));
+    return {
+        ...job,
+        uploadedDocNames: [...new Set([...job.uploadedDocNames, ...interrupted.map(item => item.docName)])],
+        items: job.items.map((item): StoreTransferItem => item.status === 'done' ? item : {
+            ...item,
+            document: item.document ?? sourceByName.get(item.docName),
+            status: 'queued',
+            error: undefined,
+        }),
+    };
+}
+
+/**
+ * Finds the original bytes of a document: a chosen file with the same name
+ * first, then whatever the backend itself can return.
+ */
+export async function findSourceFile(backend: RetrievalBackend, storeName: string, document: Document, files: File[]): Promise<File | undefined> {
+    const chosen = files.find(file => file.name === document.displayName);
+    if (chosen) return chosen;
+    return backend.getDocumentFile?.(storeName, document);
+}
+
+export interface TransferRunOptions {
+    files: File[];
+    abortSignal?: AbortSignal;
+    // Called with the updated job on every change, so it can be saved.
+    onChange: (job: StoreTransferJob) => void;
+}
+
+/**
+ * Uploads every queued document to the target store with its metadata and,
+ * for moves, then deletes the original. Documents whose bytes can't be found
+ * fail and can be retried by resuming with the files chosen.
+ */
+export async function runStoreTransfer(backend: RetrievalBackend, job: StoreTransferJob, { files, abortSignal, onChange }: TransferRunOptions): Promise<StoreTransferJob> {
+    let current = job;
+    const update = (changes: Partial<StoreTransferJob>) => {
+        current = { ...current, ...changes };
+        onChange(current);
+    };
+
+    const items = await runBulkOperation(job.items, async bulkItem => {
+        const { docName, document } = bulkItem as StoreTransferItem;
+        if (!current.uploadedDocNames.includes(docName)) {
+            if (!document) {
+                throw new Error('The document is no longer in the source store.');
+            }
+            const file = await findSourceFile(backend, job.sourceStore.name, document, files);
+            if (!file) {
+                throw new Error('No copy of the original file was found. Choose it and resume.');
+            }
+            await backend.uploadToRagStore(job.targetStore.name, file, document.customMetadata || [], {
+                displayName: document.displayName,
+                chunkingConfig: job.chunkingConfig ?? chunkingConfigFromMetadata(document.customMetadata),
+                abortSignal,
+            });
+            update({ uploadedDocNames: [...current.uploadedDocNames, docName] });
+        }
+        if (job.deleteSource) {
+            await backend.deleteDocument(job.sourceStore.name, docName);
+        }
+    }, {
+        concurrency: BULK_CONCURRENCY,
+        abortSignal,
+        onChange: updated => update({ items: updated as StoreTransferItem[] }),
+    });
+    return { ...current, items: items as StoreTransferItem[] };
+}
+
+// What the transfer dialog asks for. The target is an existing store, or a new
+// one created with `newStoreName`.
+export interface StoreTransferRequest {
+    targetStoreName?: string;
+    newStoreName?: string;
+    chunkingConfig?: ChunkingConfig;
+    deleteSource: boolean;
+    files: File[];
+}
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { QueryTelemetry, TokenUsage } from '../types';
+
+interface ModelPricing {
+    // US dollars per million tokens.
+    input: number;
+    output: number;
+    // Some models charge more for every token once the prompt passes a size.
+    longContext?: { promptTokens: number, input: number, output: number };
+}
+
+// Paid-tier list prices at the time of writing. Retrieved File Search content
+// is billed as input, thinking as output. Only an estimate; check the billing
+// console for actual charges.
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.5-pro': { input: 1.25, output: 10, longContext: { promptTokens: 200_000, input: 2.50, output: 15 } },
+};
+
+const pricingFor = (model: string) =>
+    MODEL_PRICING[model] ?? MODEL_PRICING[model.replace(/^models\//, '')];
+
+/** Estimated cost in US dollars, or undefined if the model's price is unknown. */
+export function estimateCost(model: string, usage?: TokenUsage): number | undefined {
+    const pricing = pricingFor(model);
+    if (!pricing || !usage) return undefined;
+    const inputTokens = (usage.promptTokens ?? 0) + (usage.toolUsePromptTokens ?? 0);
+    const outputTokens = (usage.candidatesTokens ?? 0) + (usage.thoughtsTokens ?? 0);
+    const rates = pricing.longContext && inputTokens > pricing.longContext.promptTokens ? pricing.longContext : pricing;
+    return (inputTokens * rates.input + outputTokens * rates.output) / 1_000_000;
+}
+
+export function formatCost(cost?: number): string {
+    if (cost === undefined) return 'n/a';
+    if (cost === 0) return '$0';
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export interface ModelTotals {
+    model: string;
+    queries: number;
+    promptTokens: number;
+    toolUsePromptTokens: number;
+    candidatesTokens: number;
+    thoughtsTokens: number;
+    totalTokens: number;
+    averageLatencyMs?: number;
+    // Undefined when any query used a model without a known price.
+    cost?: number;
+}
+
+/** Running totals per model, most expensive first. */
+export function summarizeTelemetry(records: QueryTelemetry[]): ModelTotals[] {
+    const byModel = new Map<string, QueryTelemetry[]>();
+    records.forEach(record => byModel.set(record.model, [...(byModel.get(record.model) || []), record]));
+    const sum = (items: QueryTelemetry[], field: keyof TokenUsage) =>
+        items.reduce((total, item) => total + (item.usage?.[field] ?? 0), 0);
+
+    return [...byModel.entries()].map(([model, items]): ModelTotals => {
+        const latencies = items.map(item => item.latencyMs).filter((ms): ms is number => ms !== undefined);
+        const costs = items.map(item => estimateCost(model, item.usage));
+        return {
+            model,
+            queries: items.length,
+            promptTokens: sum(items, 'promptTokens'),
+            toolUsePromptTokens: sum(items, 'toolUsePromptTokens'),
+            candidatesTokens: sum(items, 'candidatesTokens'),
+            thoughtsTokens: sum(items, 'thoughtsTokens'),
+            totalTokens: sum(items, 'totalTokens'),
+            averageLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : undefined,
+            cost: costs.some(cost => cost === undefined) ? undefined : costs.reduce((a, b) => a + b, 0),
+        };
+    }).sort((a, b) => (b.cost ?? -1) - (a.cost ?? -1));
+}
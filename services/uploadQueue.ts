@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ChunkingConfig, CustomMetadata, PendingOperation, UploadQueueItem } from '../types';
+import { RetrievalBackend } from './retrievalBackend';
+
+export type UploadFn = (item: UploadQueueItem, abortSignal: AbortSignal, onIndexing: () => void) => Promise<void>;
+
+export interface UploadQueueOptions {
+    concurrency: number;
+    upload: UploadFn;
+    onChange: (items: UploadQueueItem[]) => void;
+}
+
+export interface UploadQueue {
+    // `replaces` maps files to documents they supersede once uploaded.
+    add: (storeName: string, files: File[], metadata: CustomMetadata[], chunkingConfig?: ChunkingConfig, replaces?: Map<File, string>) => void;
+    resume: (operations: PendingOperation[]) => void;
+    retry: (id: string) => void;
+    cancel: (id: string) => void;
+    clearFinished: () => void;
+}
+
+const ACTIVE_STATUSES: UploadQueueItem['status'][] = ['uploading', 'indexing'];
+
+export const isFinished = (item: UploadQueueItem) =>
+    item.status === 'done' || item.status === 'failed' || item.status === 'cancelled';
+
+/**
+ * Creates a queue that uploads files with at most `concurrency` uploads in
+ * flight. Every status change is reported through `onChange` with a fresh
+ * array, so it can be passed straight to React state.
+ */
+export function createUploadQueue({ concurrency, upload, onChange }: UploadQueueOptions): UploadQueue {
+    let items: UploadQueueItem[] = [];
+    const controllers = new Map<string, AbortController>();
+
+    const update = (id: string, changes: Partial<UploadQueueItem>) => {
+        items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+        onChange(items);
+    };
+
+    const run = async (item: UploadQueueItem) => {
+        const controller = new AbortController();
+        controllers.set(item.id, controller);
+        update(item.id, { status: 'uploading', error: undefined });
+        try {
+            await upload(item, controller.signal, () => update(item.id, { status: 'indexing' }));
+            update(item.id, { status: 'done' });
+        } catch (err) {
+            if (controller.signal.aborted) {
+                update(item.id, { status: 'cancelled' });
+            } else {
+                update(item.id, { status: 'failed', error: err instanceof Error ? err.message : String(err) });
+            }
+        } finally {
+            controllers.delete(item.id);
+            pump();
+        }
+    };
+
+    const pump = () => {
+        let active = items.filter(item => ACTIVE_STATUSES.includes(item.status)).length;
+        for (const item of items) {
+            if (active >= concurrency) break;
+            if (item.status !== 'queued') continue;
+            active++;
+            run(item);
+        }
+    };
+
+    return {
+        add: (storeName, files, metadata, chunkingConfig, replaces) => {
+            const added = files.map((file): UploadQueueItem => ({
+                id: crypto.randomUUID(),
+                storeName,
+                displayName: file.name,
+                file,
+                metadata,
+                chunkingConfig,
+                replacesDocName: replaces?.get(file),
+                status: 'queued',
+            }));
+            items = [...items, ...added];
+            onChange(items);
+            pump();
+        },
+        resume: (operations) => {
+            const resumed = operations.map((operation): UploadQueueItem => ({
+                id: crypto.randomUUID(),
+                storeName: operation.storeName,
+                displayName: operation.displayName,
+                operationName: operation.name,
+                metadata: [],
+                status: 'queued',
+            }));
+            items = [...items, ...resumed];
+            onChange(items);
+            pump();
+        },
+        retry: (id) => {
+            const item = items.find(i => i.id === id);
+            if (!item?.file || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+            update(id, { status: 'queued', error: undefined });
+            pump();
+        },
+        cancel: (id) => {
+            const item = items.find(i => i.id === id);
+            if (!item) return;
+            if (item.status === 'queued') {
+                update(id, { status: 'cancelled' });
+            } else {
+                controllers.get(id)?.abort();
+            }
+        },
+        clearFinished: () => {
+            items = items.filter(item => !isFinished(item));
+            onChange(items);
+        },
+    };
+}
+
+/**
+ * Uploads queue items with whichever backend `getBackend` returns when each
+ * starts, or resumes their import if they were restored after a reload.
+ */
+export function createBackendUpload(getBackend: () => RetrievalBackend): UploadFn {
+    // Items whose file is in the store but whose replaced document is not yet
+    // deleted. Retrying one only tries the delete again, so no second copy is made.
+    const uploadedIds = new Set<string>();
+
+    return async (item, abortSignal, onIndexing) => {
+        const backend = getBackend();
+        if (!item.file) {
+            if (!backend.resumeImport) {
+                throw new Error(`The ${backend.label} backend cannot resume imports`);
+            }
+            onIndexing();
+            return backend.resumeImport({
+                name: item.operationName,
+                storeName: item.storeName,
+                displayName: item.displayName,
+            }, abortSignal);
+        }
+        if (!uploadedIds.has(item.id)) {
+            await backend.uploadToRagStore(item.storeName, item.file, item.metadata, {
+                chunkingConfig: item.chunkingConfig,
+                abortSignal,
+                onIndexing,
+            });
+        }
+        // The old document stays searchable until its replacement is indexed.
+        if (item.replacesDocName) {
+            uploadedIds.add(item.id);
+            try {
+                await backend.deleteDocument(item.storeName, item.replacesDocName);
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                throw new Error(`Uploaded, but the replaced document couldn't be deleted (${message}). Retry to delete it.`);
+            }
+            uploadedIds.delete(item.id);
+        }
+    };
+}
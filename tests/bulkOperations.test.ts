@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { BulkItem } from '../types';
+import { runBulkOperation } from '../services/bulkOperations';
+import { mergeMetadata } from '../services/documentUpdate';
+
+const item = (docName: string, status: BulkItem['status'] = 'queued'): BulkItem => ({ docName, displayName: docName, status });
+
+describe('runBulkOperation', () => {
+    it('limits concurrency and records failures per item', async () => {
+        let running = 0;
+        let maxRunning = 0;
+        const result = await runBulkOperation(
+            [item('a'), item('b'), item('c', 'skipped'), item('d'), item('e')],
+            async ({ docName }) => {
+                running++;
+                maxRunning = Math.max(maxRunning, running);
+                await new Promise(resolve => setTimeout(resolve, 5));
+                running--;
+                if (docName === 'd') throw new Error('boom');
+            },
+            { concurrency: 2, onChange: () => {} },
+        );
+        expect(maxRunning).toBe(2);
+        expect(result.map(i => i.status)).toEqual(['done', 'done', 'skipped', 'failed', 'done']);
+        expect(result[3].error).toBe('boom');
+    });
+
+    it('cancels items that have not started once aborted', async () => {
+        const controller = new AbortController();
+        const result = await runBulkOperation([item('a'), item('b'), item('c')], async () => controller.abort(), {
+            concurrency: 1,
+            abortSignal: controller.signal,
+            onChange: () => {},
+        });
+        expect(result.map(i => i.status)).toEqual(['done', 'cancelled', 'cancelled']);
+    });
+});
+
+describe('mergeMetadata', () => {
+    it('replaces and removes keys, keeping the rest', () => {
+        const merged = mergeMetadata(
+            [{ key: 'team', stringValue: 'ads' }, { key: 'year', numericValue: 2020 }, { key: 'draft', stringValue: 'yes' }],
+            [{ key: 'team', stringValue: 'search' }],
+            ['draft'],
+        );
+        expect(merged).toEqual([{ key: 'year', numericValue: 2020 }, { key: 'team', stringValue: 'search' }]);
+    });
+});
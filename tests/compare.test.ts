@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { GroundingChunk } from '../types';
+import { diffRetrievedChunks } from '../services/compare';
+
+const chunk = (title: string, text: string, fileSearchStore = 'stores/a'): GroundingChunk => ({
+    retrievedContext: { title, text, fileSearchStore },
+});
+
+const texts = (chunks: { title: string, text: string }[]) => chunks.map(c => `${c.title}: ${c.text}`);
+
+describe('diffRetrievedChunks', () => {
+    it('splits chunks into shared, only-A and only-B', () => {
+        const diff = diffRetrievedChunks(
+            [chunk('guide.md', 'Reset the router.'), chunk('faq.md', 'Warranty is two years.')],
+            [chunk('Guide.md', '  Reset the\nrouter. ', 'stores/b'), chunk('notes.txt', 'Call support.', 'stores/b')],
+        );
+
+        expect(texts(diff.shared)).toEqual(['guide.md: Reset the router.']);
+        expect(diff.shared[0].storeName).toBe('stores/a');
+        expect(texts(diff.onlyA)).toEqual(['faq.md: Warranty is two years.']);
+        expect(texts(diff.onlyB)).toEqual(['notes.txt: Call support.']);
+    });
+
+    it('counts repeated chunk text once, but keeps the same text from different documents apart', () => {
+        const diff = diffRetrievedChunks(
+            [chunk('a.md', 'Same text.'), chunk('a.md', 'Same text.'), chunk('b.md', 'Same text.')],
+            [chunk('a.md', 'Same text.')],
+        );
+
+        expect(texts(diff.shared)).toEqual(['a.md: Same text.']);
+        expect(texts(diff.onlyA)).toEqual(['b.md: Same text.']);
+        expect(diff.onlyB).toEqual([]);
+    });
+
+    it('ignores chunks without text and names untitled ones after their document', () => {
+        const diff = diffRetrievedChunks(
+            [{ retrievedContext: { documentName: 'stores/a/documents/report-1', text: 'Text.' } }, { retrievedContext: { title: 'empty.md' } }, {}],
+            [],
+        );
+
+        expect(texts(diff.onlyA)).toEqual(['report-1: Text.']);
+    });
+});
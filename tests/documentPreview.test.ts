@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { findChunkRanges, previewFormat, splitByRanges } from '../services/documentPreview';
+
+describe('previewFormat', () => {
+    it('uses the MIME type, then the extension', () => {
+        expect(previewFormat({ name: 'report', type: 'application/pdf' })).toBe('pdf');
+        expect(previewFormat({ name: 'README.md', type: '' })).toBe('markdown');
+        expect(previewFormat({ name: 'page.htm', type: '' })).toBe('html');
+        expect(previewFormat({ name: 'data.csv', type: '' })).toBe('text');
+        expect(previewFormat({ name: 'slides.pptx', type: 'application/vnd.ms-powerpoint' })).toBeUndefined();
+    });
+});
+
+describe('findChunkRanges', () => {
+    it('matches chunks despite markup, case and line breaks', () => {
+        const text = '# Setup\n\nRun **npm install** first,\nthen start the server.';
+        const [range] = findChunkRanges(text, ['run npm install first, then start the server']);
+        expect(text.slice(range.start, range.end)).toBe('Run **npm install** first,\nthen start the server');
+        expect(range.chunkIndex).toBe(0);
+    });
+
+    it('falls back to matching sentences when the whole chunk is not found', () => {
+        const text = 'The cache is cleared nightly by a cron job. Unrelated text. Requests are retried three times before failing.';
+        const chunk = 'The cache is cleared nightly by a cron job.\nRequests are retried three times before failing. Something the source never said.';
+        const ranges = findChunkRanges(text, ['missing', chunk]);
+        expect(ranges.map(range => text.slice(range.start, range.end))).toEqual([
+            'The cache is cleared nightly by a cron job',
+            'Requests are retried three times before failing',
+        ]);
+        expect(ranges.every(range => range.chunkIndex === 1)).toBe(true);
+    });
+});
+
+describe('splitByRanges', () => {
+    it('splits text into plain and highlighted segments, dropping overlaps', () => {
+        expect(splitByRanges('abcdefgh', [{ start: 1, end: 3, chunkIndex: 0 }, { start: 2, end: 5, chunkIndex: 1 }])).toEqual([
+            { text: 'a' },
+            { text: 'bc', chunkIndex: 0 },
+            { text: 'de', chunkIndex: 1 },
+            { text: 'fgh' },
+        ]);
+    });
+});
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { Document } from '../types';
+import { RetrievalBackend } from '../services/retrievalBackend';
+import { collectFacets, listDocumentPages, queryDocuments } from '../services/documentQuery';
+
+const documents: Document[] = [
+    { name: 'd1', displayName: 'Report 10.pdf', customMetadata: [{ key: 'team', stringValue: 'search' }, { key: 'tags', stringListValue: { values: ['q1', 'q2'] } }] },
+    { name: 'd2', displayName: 'report 2.pdf', customMetadata: [{ key: 'team', stringValue: 'ads' }, { key: 'tags', stringListValue: { values: ['q2'] } }] },
+    { name: 'd3', displayName: 'Notes.txt', customMetadata: [{ key: 'team', stringValue: 'search' }] },
+];
+
+describe('collectFacets', () => {
+    it('counts documents per metadata value', () => {
+        expect(collectFacets(documents)).toEqual([
+            { key: 'tags', values: [{ value: 'q2', count: 2 }, { value: 'q1', count: 1 }] },
+            { key: 'team', values: [{ value: 'search', count: 2 }, { value: 'ads', count: 1 }] },
+        ]);
+    });
+});
+
+describe('queryDocuments', () => {
+    it('searches names, ORs values within a facet and ANDs facets', () => {
+        const names = (options: Parameters<typeof queryDocuments>[1]) => queryDocuments(documents, options).map(doc => doc.name);
+        expect(names({ search: 'REPORT', sort: 'name-asc', facets: {} })).toEqual(['d2', 'd1']);
+        expect(names({ search: '', sort: 'listed', facets: { team: ['search', 'ads'], tags: ['q2'] } })).toEqual(['d1', 'd2']);
+        expect(names({ search: '', sort: 'name-desc', facets: { team: ['search'], tags: [] } })).toEqual(['d1', 'd3']);
+    });
+
+    it('sorts by creation time and size, keeping undated or unsized documents last', () => {
+        const dated: Document[] = [
+            { name: 'a', displayName: 'a', createTime: '2025-03-01T00:00:00Z', sizeBytes: 10 },
+            { name: 'b', displayName: 'b' },
+            { name: 'c', displayName: 'c', createTime: '2025-01-01T00:00:00Z', sizeBytes: 300 },
+        ];
+        const names = (sort: Parameters<typeof queryDocuments>[1]['sort']) => queryDocuments(dated, { search: '', sort, facets: {} }).map(doc => doc.name);
+        expect(names('newest')).toEqual(['a', 'c', 'b']);
+        expect(names('oldest')).toEqual(['c', 'a', 'b']);
+        expect(names('largest')).toEqual(['c', 'a', 'b']);
+    });
+});
+
+describe('listDocumentPages', () => {
+    const backend = {
+        listDocumentsPage: async (_store: string, { pageSize, pageToken }: { pageSize: number, pageToken?: string }) => {
+            const all = Array.from({ length: 45 }, (_, i) => ({ name: `d${i}`, displayName: `d${i}` }));
+            const start = Number(pageToken) || 0;
+            return { documents: all.slice(start, start + pageSize), nextPageToken: start + pageSize < all.length ? String(start + pageSize) : undefined };
+        },
+    } as unknown as RetrievalBackend;
+
+    it('loads one page, or enough pages to cover the requested count', async () => {
+        expect(await listDocumentPages(backend, 's')).toMatchObject({ nextPageToken: '20' });
+        const page = await listDocumentPages(backend, 's', 21);
+        expect(page.documents).toHaveLength(40);
+        expect(page.nextPageToken).toBe('40');
+        expect((await listDocumentPages(backend, 's', Infinity, '20')).documents).toHaveLength(25);
+    });
+});
@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it, vi } from 'vitest';
+import { RetrievalBackend } from '../services/retrievalBackend';
+import { applyDocumentUpdate, fromMetadataDrafts, toMetadataDrafts } from '../services/documentUpdate';
+
+describe('metadata drafts', () => {
+    it('round-trips typed values and leaves out chunking entries', () => {
+        const metadata = [
+            { key: 'team', stringValue: 'search' },
+            { key: 'tags', stringListValue: { values: ['faq', 'billing'] } },
+            { key: 'year', numericValue: 2024 },
+            { key: 'chunking', stringValue: 'default' },
+        ];
+        const drafts = toMetadataDrafts(metadata);
+        expect(drafts.map(d => d.key)).toEqual(['team', 'tags', 'year']);
+        expect(fromMetadataDrafts(drafts)).toEqual({ metadata: metadata.slice(0, 3), errors: [] });
+    });
+
+    it('reports bad numbers, duplicate and reserved keys', () => {
+        const { errors } = fromMetadataDrafts([
+            { key: 'year', valueType: 'numeric', value: 'soon' },
+            { key: 'team', valueType: 'string', value: 'a' },
+            { key: 'team', valueType: 'string', value: 'b' },
+            { key: 'chunk_max_tokens', valueType: 'numeric', value: '200' },
+            { key: ' ', valueType: 'string', value: 'ignored' },
+        ]);
+        expect(errors).toHaveLength(3);
+    });
+});
+
+describe('applyDocumentUpdate', () => {
+    const document = {
+        name: 'stores/s/documents/d',
+        displayName: 'old.txt',
+        customMetadata: [{ key: 'chunking', stringValue: 'whitespace' }, { key: 'chunk_max_tokens', numericValue: 300 }],
+    };
+    const update = { displayName: 'new.txt', customMetadata: [{ key: 'team', stringValue: 'search' }] };
+
+    it('re-uploads with the same chunking, then deletes the old document', async () => {
+        const calls: string[] = [];
+        const backend = {
+            label: 'Remote',
+            uploadToRagStore: vi.fn(async () => { calls.push('upload'); }),
+            deleteDocument: vi.fn(async () => { calls.push('delete'); }),
+        } as unknown as RetrievalBackend;
+        const file = new File(['hello'], 'old.txt');
+
+        await applyDocumentUpdate(backend, 'stores/s', document, update, file);
+
+        expect(calls).toEqual(['upload', 'delete']);
+        expect(backend.uploadToRagStore).toHaveBeenCalledWith('stores/s', file, update.customMetadata, {
+            displayName: 'new.txt',
+            chunkingConfig: { maxTokensPerChunk: 300, maxOverlapTokens: undefined },
+        });
+        await expect(applyDocumentUpdate(backend, 'stores/s', document, update)).rejects.toThrow(/original file/);
+    });
+});
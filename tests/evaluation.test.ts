@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { answerSimilarity, parseQuestionSet, runEvaluation, scoreResult, summarizeResults } from '../services/evaluation';
+import { Document, QueryResult } from '../types';
+
+const documents: Document[] = [
+    { name: 'fileSearchStores/s/documents/returns-1', displayName: 'returns.pdf' },
+    { name: 'fileSearchStores/s/documents/shipping-2', displayName: 'shipping.pdf' },
+];
+
+const resultWithSources = (text: string, titles: string[]): QueryResult => ({
+    text,
+    groundingChunks: titles.map(title => ({ retrievedContext: { title, text: '' } })),
+    groundingSupports: [],
+});
+
+describe('parseQuestionSet', () => {
+    it('reads JSON, JSON Lines and plain text', () => {
+        expect(parseQuestionSet('[{"question": "Q1", "expectedAnswer": "A", "expectedSources": ["x.pdf"]}]'))
+            .toEqual([{ question: 'Q1', expectedAnswers: ['A'], expectedSources: ['x.pdf'] }]);
+        expect(parseQuestionSet('{"question": "Q1"}\n{"query": "Q2"}').map(q => q.question)).toEqual(['Q1', 'Q2']);
+        expect(parseQuestionSet('First?\n\nSecond?')).toEqual([{ question: 'First?' }, { question: 'Second?' }]);
+    });
+
+    it('reports which entry is invalid', () => {
+        expect(() => parseQuestionSet('{"question": "ok"}\n{"answer": "no question"}')).toThrow('Line 2');
+    });
+});
+
+describe('scoring', () => {
+    it('scores answer similarity as token F1', () => {
+        expect(answerSimilarity('The window is 30 days.', '30 days')).toBeCloseTo(2 * (2 / 4) * 1 / (2 / 4 + 1));
+        expect(answerSimilarity('Nothing relevant', '30 days')).toBe(0);
+    });
+
+    it('computes source hits and recall within the top k distinct documents', () => {
+        const question = { question: 'Q', expectedSources: ['returns.pdf', 'shipping-2'] };
+        const result = resultWithSources('A', ['returns.pdf', 'returns.pdf', 'other.pdf', 'shipping.pdf']);
+
+        expect(scoreResult(question, result, documents, 2)).toMatchObject({
+            retrievedSources: ['returns.pdf', 'other.pdf', 'shipping.pdf'],
+            sourceHit: true,
+            recallAtK: 0.5,
+        });
+        expect(scoreResult(question, result, documents, 3).recallAtK).toBe(1);
+    });
+
+    it('records failed questions and leaves them out of the averages', async () => {
+        const results = await runEvaluation(
+            [{ question: 'good', expectedSources: ['returns.pdf'] }, { question: 'bad', expectedSources: ['returns.pdf'] }],
+            async question => {
+                if (question === 'bad') throw new Error('quota exceeded');
+                return resultWithSources('A', ['returns.pdf']);
+            },
+            { documents, k: 5 },
+        );
+
+        expect(results[1].error).toBe('quota exceeded');
+        expect(summarizeResults(results)).toEqual({
+            questionCount: 2,
+            failedCount: 1,
+            sourceHitRate: 1,
+            meanRecallAtK: 1,
+            meanAnswerSimilarity: undefined,
+        });
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { CachedFile, CustomMetadata, Document, UploadOptions } from '../types';
+import { RetrievalBackend } from '../services/retrievalBackend';
+import { cacheFile, findDuplicate, getCachedFile, hashFile, listCachedFiles, pruneCachedStore } from '../services/fileCache';
+import { withFileCache } from '../services/cachingBackend';
+
+const cached = (docName: string, displayName: string, hash: string): CachedFile => ({
+    docName,
+    storeName: 'stores/s',
+    displayName,
+    hash,
+    mimeType: 'text/plain',
+    sizeBytes: 0,
+    cachedAt: 0,
+    content: new Blob(),
+});
+
+describe('hashFile', () => {
+    it('hashes the content with SHA-256', async () => {
+        expect(await hashFile(new File(['abc'], 'a.txt'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+});
+
+describe('findDuplicate', () => {
+    const entries = [cached('d1', 'report.pdf', 'h1'), cached('d2', 'notes.txt', 'h2')];
+
+    it('finds the same content under any name before a name clash', () => {
+        const file = new File([''], 'notes.txt');
+        expect(findDuplicate(file, 'h1', entries)).toEqual({ file, kind: 'identical', existing: { docName: 'd1', displayName: 'report.pdf' } });
+        expect(findDuplicate(file, 'h3', entries)).toEqual({ file, kind: 'changed', existing: { docName: 'd2', displayName: 'notes.txt' } });
+        expect(findDuplicate(new File([''], 'new.txt'), 'h3', entries)).toBeUndefined();
+    });
+});
+
+const fakeBackend = () => ({
+    uploadToRagStore: vi.fn(async (store: string, file: File, _metadata: CustomMetadata[], options: UploadOptions) => `${store}/documents/${options.displayName || file.name}`),
+    deleteDocument: vi.fn(async (_store: string, _docName: string) => {}),
+    deleteRagStore: vi.fn(async (_store: string) => {}),
+    getDocumentFile: vi.fn(async (_store: string, _doc: Document): Promise<File | undefined> => undefined),
+});
+
+const cachedNames = async (storeName: string) => (await listCachedFiles(storeName)).map(entry => entry.docName).sort();
+
+describe('withFileCache', () => {
+    it('caches uploads and reads them back before asking the backend', async () => {
+        const backend = fakeBackend();
+        const cached = withFileCache(backend as unknown as RetrievalBackend);
+
+        const docName = await cached.uploadToRagStore('stores/upload', new File(['abc'], 'a.txt', { type: 'text/plain' }), [], { displayName: 'renamed.txt' });
+
+        expect(docName).toBe('stores/upload/documents/renamed.txt');
+        const [entry] = await listCachedFiles('stores/upload');
+        expect(entry).toMatchObject({ docName, displayName: 'renamed.txt', hash: await hashFile(new File(['abc'], 'a.txt')), sizeBytes: 3 });
+        const file = await cached.getDocumentFile!('stores/upload', { name: docName!, displayName: 'renamed.txt' });
+        expect(await file?.text()).toBe('abc');
+        expect(file?.name).toBe('renamed.txt');
+        expect(backend.getDocumentFile).not.toHaveBeenCalled();
+
+        await cached.getDocumentFile!('stores/upload', { name: 'stores/upload/documents/other', displayName: 'other.txt' });
+        expect(backend.getDocumentFile).toHaveBeenCalledTimes(1);
+    });
+
+    it('evicts files when their document or store is deleted', async () => {
+        const cached = withFileCache(fakeBackend() as unknown as RetrievalBackend);
+        await cached.uploadToRagStore('stores/delete', new File(['1'], 'one.txt'), []);
+        await cached.uploadToRagStore('stores/delete', new File(['2'], 'two.txt'), []);
+        await cached.uploadToRagStore('stores/kept', new File(['3'], 'three.txt'), []);
+
+        await cached.deleteDocument('stores/delete', 'stores/delete/documents/one.txt');
+        expect(await cachedNames('stores/delete')).toEqual(['stores/delete/documents/two.txt']);
+
+        await cached.deleteRagStore('stores/delete');
+        expect(await cachedNames('stores/delete')).toEqual([]);
+        expect(await cachedNames('stores/kept')).toEqual(['stores/kept/documents/three.txt']);
+    });
+
+    it('still fails the operation when the backend does', async () => {
+        const backend = fakeBackend();
+        backend.deleteDocument.mockRejectedValueOnce(new Error('not found'));
+        const cached = withFileCache(backend as unknown as RetrievalBackend);
+        await cached.uploadToRagStore('stores/failed', new File(['x'], 'x.txt'), []);
+
+        await expect(cached.deleteDocument('stores/failed', 'stores/failed/documents/x.txt')).rejects.toThrow('not found');
+        expect(await getCachedFile('stores/failed/documents/x.txt')).toBeDefined();
+    });
+});
+
+describe('pruneCachedStore', () => {
+    it('drops files of unlisted documents cached before the listing', async () => {
+        await cacheFile('stores/prune', 'listed', 'listed.txt', new File(['1'], 'listed.txt'));
+        await cacheFile('stores/prune', 'deleted', 'deleted.txt', new File(['2'], 'deleted.txt'));
+        const listedAt = Date.now() + 1;
+        await new Promise(resolve => setTimeout(resolve, 5));
+        await cacheFile('stores/prune', 'new', 'new.txt', new File(['3'], 'new.txt'));
+
+        await pruneCachedStore('stores/prune', ['listed'], listedAt);
+
+        expect(await cachedNames('stores/prune')).toEqual(['listed', 'new']);
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import * as geminiService from '../services/geminiService';
+import { listPendingOperations, OperationFailedError, OperationTimeoutError } from '../services/operationTracker';
+import { MockGeminiServer, startMockGeminiServer } from './mockGeminiServer';
+
+// Integration tests: the real SDK talks HTTP to an in-process fake of the API.
+
+let server: MockGeminiServer;
+
+const textFile = (name: string, text = 'hello world') => new File([text], name, { type: 'text/plain' });
+
+const answerEvent = (text: string, groundingMetadata?: Record<string, unknown>) => ({
+    candidates: [{ content: { role: 'model', parts: [{ text }] }, groundingMetadata }],
+});
+
+beforeAll(async () => {
+    server = await startMockGeminiServer();
+});
+
+afterAll(async () => {
+    await server.close();
+});
+
+beforeEach(() => {
+    server.reset();
+    const storage = new Map<string, string>();
+    vi.stubGlobal('localStorage', {
+        getItem: (key: string) => storage.get(key) ?? null,
+        setItem: (key: string, value: string) => storage.set(key, value),
+        removeItem: (key: string) => storage.delete(key),
+    });
+    geminiService.initialize({
+        apiKey: 'test-key',
+        baseUrl: server.baseUrl,
+        pollOptions: { initialDelayMs: 1, maxDelayMs: 5, timeoutMs: 2000 },
+    });
+});
+
+describe('stores', () => {
+    it('lists stores across every page', async () => {
+        server.defaultPageSize = 2;
+        ['One', 'Two', 'Three', 'Four', 'Five'].forEach(name => server.addStore(name));
+
+        const stores = await geminiService.listRagStores();
+
+        expect(stores.map(s => s.displayName)).toEqual(['One', 'Two', 'Three', 'Four', 'Five']);
+        const listRequests = server.requests.filter(r => r.method === 'GET' && r.path === '/v1beta/fileSearchStores');
+        expect(listRequests.map(r => r.query.get('pageToken'))).toEqual([null, '2', '4']);
+    });
+
+    it('falls back to the resource id when a store has no display name', async () => {
+        const store = server.addStore(undefined);
+
+        const [listed] = await geminiService.listRagStores();
+
+        expect(listed.displayName).toBe(store.name.split('/').pop());
+    });
+
+    it('creates and deletes a store', async () => {
+        const name = await geminiService.createRagStore('Handbook');
+        expect(server.stores.get(name)?.displayName).toBe('Handbook');
+
+        await geminiService.deleteRagStore(name);
+
+        expect(server.stores.has(name)).toBe(false);
+        expect(server.requests.at(-1).query.get('force')).toBe('true');
+    });
+});
+
+describe('documents', () => {
+    it('lists documents across every page with their metadata', async () => {
+        server.defaultPageSize = 3;
+        const store = server.addStore('Docs');
+        const other = server.addStore('Other');
+        for (let i = 1; i <= 7; i++) {
+            server.addDocument(store.name, `doc-${i}.txt`, [{ key: 'index', numericValue: i }]);
+        }
+        server.addDocument(other.name, 'elsewhere.txt');
+
+        const documents = await geminiService.listDocuments(store.name);
+
+        expect(documents).toHaveLength(7);
+        expect(documents[6]).toMatchObject({ displayName: 'doc-7.txt', customMetadata: [{ key: 'index', numericValue: 7 }] });
+    });
+
+    it('lists documents a page at a time', async () => {
+        const store = server.addStore('Docs');
+        for (let i = 1; i <= 5; i++) server.addDocument(store.name, `doc-${i}.txt`);
+
+        const first = await geminiService.listDocumentsPage(store.name, { pageSize: 3 });
+        const second = await geminiService.listDocumentsPage(store.name, { pageSize: 3, pageToken: first.nextPageToken });
+
+        expect(first.documents.map(doc => doc.displayName)).toEqual(['doc-1.txt', 'doc-2.txt', 'doc-3.txt']);
+        expect(first.nextPageToken).toBeDefined();
+        expect(second.documents.map(doc => doc.displayName)).toEqual(['doc-4.txt', 'doc-5.txt']);
+        expect(second.nextPageToken).toBeUndefined();
+    });
+
+    it('maps document state and size', async () => {
+        const store = server.addStore('Docs');
+        Object.assign(server.addDocument(store.name, 'indexing.pdf'), { state: 'STATE_PENDING', sizeBytes: '2048', mimeType: 'application/pdf' });
+        Object.assign(server.addDocument(store.name, 'broken.txt'), { state: 'STATE_FAILED' });
+
+        const documents = await geminiService.listDocuments(store.name);
+
+        expect(documents[0]).toMatchObject({ state: 'pending', sizeBytes: 2048, mimeType: 'application/pdf' });
+        expect(documents[1]).toMatchObject({ state: 'failed', sizeBytes: 0 });
+    });
+
+    it('force-deletes a document', async () => {
+        const store = server.addStore('Docs');
+        const document = server.addDocument(store.name, 'old.txt');
+
+        await geminiService.deleteDocument(store.name, document.name);
+
+        expect(server.documents.has(document.name)).toBe(false);
+        expect(server.requests.at(-1)).toMatchObject({ method: 'DELETE', path: `/v1beta/${document.name}` });
+        expect(server.requests.at(-1).query.get('force')).toBe('true');
+    });
+});
+
+describe('uploadToRagStore', () => {
+    it('uploads with metadata and chunking, then polls the import until it is done', async () => {
+        const store = server.addStore('Docs');
+        server.importBehaviors.push({ pollsUntilDone: 3 });
+        const onIndexing = vi.fn();
+
+        const docName = await geminiService.uploadToRagStore(store.name, textFile('notes.txt'), [{ key: 'author', stringValue: 'Ada' }], {
+            chunkingConfig: { maxTokensPerChunk: 100, maxOverlapTokens: 10 },
+            onIndexing,
+        });
+
+        const start = server.requests.find(r => r.path.endsWith(':uploadToFileSearchStore'));
+        expect(start.body).toMatchObject({
+            displayName: 'notes.txt',
+            chunkingConfig: { whiteSpaceConfig: { maxTokensPerChunk: 100, maxOverlapTokens: 10 } },
+        });
+        expect(start.body.customMetadata).toContainEqual({ key: 'author', stringValue: 'Ada' });
+        expect(onIndexing).toHaveBeenCalledOnce();
+        expect(server.requests.filter(r => r.path.includes('/upload/operations/'))).toHaveLength(4);
+        expect([...server.documents.values()].map(d => d.displayName)).toEqual(['notes.txt']);
+        expect(docName).toBe([...server.documents.keys()][0]);
+        expect(listPendingOperations()).toEqual([]);
+    });
+
+    it('rejects with the operation error when the import fails', async () => {
+        const store = server.addStore('Docs');
+        server.importBehaviors.push({ error: { code: 3, message: 'Unsupported file' } });
+
+        const upload = geminiService.uploadToRagStore(store.name, textFile('bad.bin'), []);
+
+        await expect(upload).rejects.toBeInstanceOf(OperationFailedError);
+        await expect(upload).rejects.toThrow('Unsupported file (code 3)');
+        expect(server.documents.size).toBe(0);
+        expect(listPendingOperations()).toEqual([]);
+    });
+
+    it('keeps a timed-out import pending so it can be resumed', async () => {
+        const store = server.addStore('Docs');
+        server.importBehaviors.push({ pollsUntilDone: 1000 });
+        geminiService.initialize({
+            apiKey: 'test-key',
+            baseUrl: server.baseUrl,
+            pollOptions: { initialDelayMs: 1, maxDelayMs: 5, timeoutMs: 50 },
+        });
+
+        await expect(geminiService.uploadToRagStore(store.name, textFile('slow.txt'), [])).rejects.toBeInstanceOf(OperationTimeoutError);
+
+        const [pending] = listPendingOperations();
+        expect(pending).toMatchObject({ storeName: store.name, displayName: 'slow.txt' });
+
+        server.operations.get(pending.name).pollsRemaining = 0;
+        await geminiService.resumeImport(pending);
+
+        expect(listPendingOperations()).toEqual([]);
+        expect([...server.documents.values()].map(d => d.displayName)).toEqual(['slow.txt']);
+    });
+});
+
+describe('getDocumentFile', () => {
+    it('downloads a Files API file with the same name and size, listing the files once', async () => {
+        server.addFile('other.txt', 'other');
+        server.addFile('report.txt', 'an older, longer draft');
+        server.addFile('report.txt', 'final text');
+
+        const file = await geminiService.getDocumentFile('fileSearchStores/s', { name: 'fileSearchStores/s/documents/1', displayName: 'report.txt', sizeBytes: 10 });
+        const missing = await geminiService.getDocumentFile('fileSearchStores/s', { name: 'fileSearchStores/s/documents/2', displayName: 'notes.txt' });
+
+        expect(await file?.text()).toBe('final text');
+        expect(file?.name).toBe('report.txt');
+        expect(missing).toBeUndefined();
+        expect(server.requests.filter(r => r.path === '/v1beta/files')).toHaveLength(1);
+    });
+});
+
+describe('fileSearch', () => {
+    it('streams text and parses grounding metadata and usage from the final chunk', async () => {
+        const store = server.addStore('Docs');
+        server.generateScripts.push([
+            answerEvent('The sky '),
+            {
+                ...answerEvent('is blue.', {
+                    groundingChunks: [{ retrievedContext: { title: 'sky.txt', text: 'The sky is blue.', documentName: `${store.name}/documents/sky` } }],
+                    groundingSupports: [{ segment: { startIndex: 0, endIndex: 16, text: 'The sky is blue.' }, groundingChunkIndices: [0] }],
+                }),
+                usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 5, toolUsePromptTokenCount: 40, thoughtsTokenCount: 7, totalTokenCount: 64 },
+            },
+        ]);
+        const onText = vi.fn();
+
+        const result = await geminiService.fileSearch([store.name], 'What colour is the sky?', {
+            metadataFilter: 'topic = "weather"',
+            onText,
+        });
+
+        expect(onText.mock.calls.map(([text]) => text)).toEqual(['The sky ', 'The sky is blue.']);
+        expect(result.text).toBe('The sky is blue.');
+        expect(result.aborted).toBeUndefined();
+        expect(result.groundingChunks[0].retrievedContext).toMatchObject({ title: 'sky.txt', fileSearchStore: store.name });
+        expect(result.groundingSupports[0]).toMatchObject({ segment: { startIndex: 0, endIndex: 16 }, groundingChunkIndices: [0] });
+        expect(result.usage).toEqual({ promptTokens: 12, candidatesTokens: 5, toolUsePromptTokens: 40, thoughtsTokens: 7, totalTokens: 64 });
+        expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+
+        const request = server.requests.find(r => r.path.endsWith(':streamGenerateContent'));
+        expect(request.path).toBe('/v1beta/models/gemini-2.5-flash:streamGenerateContent');
+        expect(request.body.tools).toEqual([{ fileSearch: { fileSearchStoreNames: [store.name], metadataFilter: 'topic = "weather"' } }]);
+    });
+
+    it('replays history and leaves chunk stores alone when searching several stores', async () => {
+        const first = server.addStore('First');
+        const second = server.addStore('Second');
+        server.generateScripts.push([
+            answerEvent('Answer.', { groundingChunks: [{ retrievedContext: { title: 'a.txt', text: 'A' } }] }),
+        ]);
+
+        const result = await geminiService.fileSearch([first.name, second.name], 'And then?', {
+            history: [
+                { role: 'user', parts: [{ text: 'First question' }] },
+                { role: 'model', parts: [{ text: 'First answer' }], groundingChunks: [] },
+            ],
+        });
+
+        expect(result.groundingChunks[0].retrievedContext.fileSearchStore).toBeUndefined();
+        const request = server.requests.find(r => r.path.endsWith(':streamGenerateContent'));
+        expect(request.body.contents).toEqual([
+            { role: 'user', parts: [{ text: 'First question' }] },
+            { role: 'model', parts: [{ text: 'First answer' }] },
+            { role: 'user', parts: [{ text: 'And then?' }] },
+        ]);
+    });
+
+    it('surfaces API errors', async () => {
+        const store = server.addStore('Docs');
+
+        await expect(geminiService.fileSearch([store.name], 'Anything?')).rejects.toThrow('No generateContent response scripted');
+    });
+});
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { MetadataFieldSchema } from '../types';
+import { applySchemaToDrafts, validateMetadata } from '../services/metadataSchema';
+
+const schema: MetadataFieldSchema[] = [
+    { key: 'year', valueType: 'numeric', required: true, allowedValues: [] },
+    { key: 'status', valueType: 'string', required: false, allowedValues: ['draft', 'final'] },
+    { key: 'tags', valueType: 'stringList', required: false, allowedValues: [] },
+];
+
+describe('applySchemaToDrafts', () => {
+    it('puts schema fields first with their types and keeps entered values', () => {
+        const drafts = applySchemaToDrafts(schema, [
+            { key: 'owner', valueType: 'string', value: 'ana' },
+            { key: 'year', valueType: 'string', value: '2024' },
+        ]);
+        expect(drafts).toEqual([
+            { key: 'year', valueType: 'numeric', value: '2024' },
+            { key: 'status', valueType: 'string', value: '' },
+            { key: 'tags', valueType: 'stringList', value: '' },
+            { key: 'owner', valueType: 'string', value: 'ana' },
+        ]);
+    });
+});
+
+describe('validateMetadata', () => {
+    it('builds typed metadata and drops empty optional fields', () => {
+        const drafts = applySchemaToDrafts(schema, [{ key: 'year', valueType: 'numeric', value: '2023' }, { key: 'tags', valueType: 'stringList', value: 'a, b' }]);
+        expect(validateMetadata(schema, drafts)).toEqual({
+            metadata: [{ key: 'year', numericValue: 2023 }, { key: 'tags', stringListValue: { values: ['a', 'b'] } }],
+            errors: [],
+        });
+    });
+
+    it('reports missing required fields and values that are not allowed', () => {
+        const drafts = applySchemaToDrafts(schema, [{ key: 'status', valueType: 'string', value: 'published' }]);
+        expect(validateMetadata(schema, drafts).errors).toEqual(['"year" is required.', '"status" doesn\'t allow "published".']);
+    });
+});
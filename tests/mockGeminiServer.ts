@@ -0,0 +1,292 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+// A small in-process fake of the Gemini REST API, covering the endpoints
+// geminiService uses: File Search stores and their documents, resumable
+// uploads, long-running operations, Files API listings and downloads, and
+// streamed generateContent.
+
+export interface MockStore {
+    name: string;
+    displayName?: string;
+    createTime: string;
+}
+
+export interface MockDocument {
+    name: string;
+    displayName?: string;
+    customMetadata?: Record<string, unknown>[];
+    state: string;
+    sizeBytes: string;
+    mimeType?: string;
+}
+
+export interface MockFile {
+    name: string;
+    displayName?: string;
+    mimeType: string;
+    sizeBytes: string;
+    downloadUri: string;
+    content: Buffer;
+}
+
+interface MockOperation {
+    name: string;
+    storeName: string;
+    document: MockDocument;
+    pollsRemaining: number;
+    error?: { code: number, message: string };
+}
+
+/** How the next imports behave; applied in order, then the default is used. */
+export interface ImportBehavior {
+    // Number of polls that still report the operation as running.
+    pollsUntilDone?: number;
+    error?: { code: number, message: string };
+}
+
+export interface RecordedRequest {
+    method: string;
+    path: string;
+    query: URLSearchParams;
+    body: any;
+}
+
+export interface MockGeminiServer {
+    baseUrl: string;
+    stores: Map<string, MockStore>;
+    documents: Map<string, MockDocument>;
+    operations: Map<string, MockOperation>;
+    files: Map<string, MockFile>;
+    requests: RecordedRequest[];
+    // Page size used when a list request doesn't ask for one.
+    defaultPageSize: number;
+    importBehaviors: ImportBehavior[];
+    // Each call to streamGenerateContent replies with the next script, one SSE event per entry.
+    generateScripts: Record<string, unknown>[][];
+    addStore(displayName: string): MockStore;
+    addDocument(storeName: string, displayName: string, customMetadata?: Record<string, unknown>[]): MockDocument;
+    addFile(displayName: string, content: string, mimeType?: string): MockFile;
+    reset(): void;
+    close(): Promise<void>;
+}
+
+const readBody = (req: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, message: string) =>
+    sendJson(res, status, { error: { code: status, message, status: status === 404 ? 'NOT_FOUND' : 'INVALID_ARGUMENT' } });
+
+function paginate<T>(items: T[], query: URLSearchParams, defaultPageSize: number): { page: T[], nextPageToken?: string } {
+    const pageSize = Number(query.get('pageSize')) || defaultPageSize;
+    const start = Number(query.get('pageToken') || 0);
+    const end = start + pageSize;
+    return { page: items.slice(start, end), nextPageToken: end < items.length ? String(end) : undefined };
+}
+
+export async function startMockGeminiServer(): Promise<MockGeminiServer> {
+    let counter = 0;
+    const nextId = (prefix: string) => `${prefix}-${++counter}`;
+    const uploadSessions = new Map<string, { storeName: string, config: any, fileName: string, mimeType: string }>();
+
+    const mock: MockGeminiServer = {
+        baseUrl: '',
+        stores: new Map(),
+        documents: new Map(),
+        operations: new Map(),
+        files: new Map(),
+        requests: [],
+        defaultPageSize: 10,
+        importBehaviors: [],
+        generateScripts: [],
+        addStore(displayName) {
+            const store = { name: `fileSearchStores/${nextId('store')}`, displayName, createTime: new Date().toISOString() };
+            mock.stores.set(store.name, store);
+            return store;
+        },
+        addDocument(storeName, displayName, customMetadata) {
+            const document = {
+                name: `${storeName}/documents/${nextId('doc')}`,
+                displayName,
+                customMetadata,
+                state: 'STATE_ACTIVE',
+                sizeBytes: '0',
+            };
+            mock.documents.set(document.name, document);
+            return document;
+        },
+        addFile(displayName, content, mimeType = 'text/plain') {
+            const id = nextId('file');
+            const file = {
+                name: `files/${id}`,
+                displayName,
+                mimeType,
+                sizeBytes: String(Buffer.byteLength(content)),
+                downloadUri: `${mock.baseUrl}/downloads/${id}`,
+                content: Buffer.from(content),
+            };
+            mock.files.set(file.name, file);
+            return file;
+        },
+        reset() {
+            mock.stores.clear();
+            mock.documents.clear();
+            mock.operations.clear();
+            mock.files.clear();
+            uploadSessions.clear();
+            mock.requests.length = 0;
+            mock.defaultPageSize = 10;
+            mock.importBehaviors = [];
+            mock.generateScripts = [];
+        },
+        close: () => new Promise((resolve, reject) => server.close(err => err ? reject(err) : resolve())),
+    };
+
+    const handle = async (req: IncomingMessage, res: ServerResponse) => {
+        const url = new URL(req.url || '/', mock.baseUrl);
+        const raw = await readBody(req);
+        // Upload chunks are sent with a JSON content type too, so fall back to the raw bytes.
+        let body: any = raw;
+        try {
+            body = raw.length > 0 ? JSON.parse(raw.toString('utf8')) : {};
+        } catch {
+            // Not JSON.
+        }
+        const path = decodeURIComponent(url.pathname);
+        mock.requests.push({ method: req.method || 'GET', path, query: url.searchParams, body });
+
+        let match: RegExpMatchArray | null;
+
+        if (req.method === 'POST' && path === '/v1beta/fileSearchStores') {
+            return sendJson(res, 200, mock.addStore(body.displayName));
+        }
+        if (req.method === 'GET' && path === '/v1beta/fileSearchStores') {
+            const { page, nextPageToken } = paginate([...mock.stores.values()], url.searchParams, mock.defaultPageSize);
+            return sendJson(res, 200, { fileSearchStores: page, nextPageToken });
+        }
+        if ((match = path.match(/^\/v1beta\/(fileSearchStores\/[^/:]+)$/))) {
+            const store = mock.stores.get(match[1]);
+            if (!store) return sendError(res, 404, `${match[1]} not found`);
+            if (req.method === 'GET') return sendJson(res, 200, store);
+            if (req.method === 'DELETE') {
+                mock.stores.delete(store.name);
+                [...mock.documents.keys()].filter(name => name.startsWith(`${store.name}/`)).forEach(name => mock.documents.delete(name));
+                return sendJson(res, 200, {});
+            }
+        }
+        if (req.method === 'GET' && (match = path.match(/^\/v1beta\/(fileSearchStores\/[^/]+)\/documents$/))) {
+            const storeName = match[1];
+            if (!mock.stores.has(storeName)) return sendError(res, 404, `${storeName} not found`);
+            const documents = [...mock.documents.values()].filter(doc => doc.name.startsWith(`${storeName}/`));
+            const { page, nextPageToken } = paginate(documents, url.searchParams, mock.defaultPageSize);
+            return sendJson(res, 200, { documents: page, nextPageToken });
+        }
+        if ((match = path.match(/^\/v1beta\/(fileSearchStores\/[^/]+\/documents\/[^/]+)$/))) {
+            const document = mock.documents.get(match[1]);
+            if (!document) return sendError(res, 404, `${match[1]} not found`);
+            if (req.method === 'GET') return sendJson(res, 200, document);
+            if (req.method === 'DELETE') {
+                mock.documents.delete(document.name);
+                return sendJson(res, 200, {});
+            }
+        }
+
+        // Resumable upload: the start request hands out a session URL, and the
+        // final chunk posted to it returns the import operation.
+        if (req.method === 'POST' && (match = path.match(/^\/upload\/v1beta\/(fileSearchStores\/[^/]+):uploadToFileSearchStore$/))) {
+            const storeName = match[1];
+            if (!mock.stores.has(storeName)) return sendError(res, 404, `${storeName} not found`);
+            const sessionId = nextId('session');
+            uploadSessions.set(sessionId, {
+                storeName,
+                config: body,
+                fileName: String(req.headers['x-goog-upload-file-name'] || ''),
+                mimeType: String(req.headers['x-goog-upload-header-content-type'] || ''),
+            });
+            return sendJson(res, 200, {}, { 'x-goog-upload-url': `${mock.baseUrl}/upload-sessions/${sessionId}` });
+        }
+        if (req.method === 'POST' && (match = path.match(/^\/upload-sessions\/([^/]+)$/))) {
+            const session = uploadSessions.get(match[1]);
+            if (!session) return sendError(res, 404, 'Upload session not found');
+            uploadSessions.delete(match[1]);
+            const behavior = mock.importBehaviors.shift() || {};
+            const operation: MockOperation = {
+                name: `${session.storeName}/upload/operations/${nextId('op')}`,
+                storeName: session.storeName,
+                document: {
+                    name: `${session.storeName}/documents/${nextId('doc')}`,
+                    displayName: session.config.displayName || session.fileName,
+                    customMetadata: session.config.customMetadata,
+                    state: 'STATE_ACTIVE',
+                    sizeBytes: String(raw.length),
+                    mimeType: session.mimeType,
+                },
+                pollsRemaining: behavior.pollsUntilDone ?? 1,
+                error: behavior.error,
+            };
+            mock.operations.set(operation.name, operation);
+            return sendJson(res, 200, { name: operation.name, done: false }, { 'x-goog-upload-status': 'final' });
+        }
+        if (req.method === 'GET' && (match = path.match(/^\/v1beta\/(fileSearchStores\/[^/]+\/upload\/operations\/[^/]+)$/))) {
+            const operation = mock.operations.get(match[1]);
+            if (!operation) return sendError(res, 404, `${match[1]} not found`);
+            if (operation.pollsRemaining > 0) {
+                operation.pollsRemaining--;
+                return sendJson(res, 200, { name: operation.name, done: false });
+            }
+            if (operation.error) {
+                return sendJson(res, 200, { name: operation.name, done: true, error: operation.error });
+            }
+            mock.documents.set(operation.document.name, operation.document);
+            return sendJson(res, 200, {
+                name: operation.name,
+                done: true,
+                response: { '@type': 'type.googleapis.com/google.ai.generativelanguage.v1main.UploadToFileSearchStoreResponse', documentName: operation.document.name },
+            });
+        }
+
+        if (req.method === 'GET' && path === '/v1beta/files') {
+            const { page, nextPageToken } = paginate([...mock.files.values()], url.searchParams, mock.defaultPageSize);
+            return sendJson(res, 200, { files: page.map(({ content, ...file }) => file), nextPageToken });
+        }
+        if (req.method === 'GET' && (match = path.match(/^\/downloads\/([^/]+)$/))) {
+            const file = mock.files.get(`files/${match[1]}`);
+            if (!file) return sendError(res, 404, `files/${match[1]} not found`);
+            if (!req.headers['x-goog-api-key']) return sendError(res, 403, 'Missing API key');
+            res.writeHead(200, { 'content-type': file.mimeType });
+            return res.end(file.content);
+        }
+
+        if (req.method === 'POST' && (match = path.match(/^\/v1beta\/models\/([^/:]+):streamGenerateContent$/))) {
+            const script = mock.generateScripts.shift();
+            if (!script) return sendError(res, 400, 'No generateContent response scripted');
+            res.writeHead(200, { 'content-type': 'text/event-stream' });
+            for (const event of script) {
+                res.write(`data: ${JSON.stringify(event)}\r\n\r\n`);
+            }
+            return res.end();
+        }
+
+        sendError(res, 404, `No mock route for ${req.method} ${path}`);
+    };
+
+    const server = createServer((req, res) => {
+        handle(req, res).catch(err => sendError(res, 500, err instanceof Error ? err.message : String(err)));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    mock.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return mock;
+}
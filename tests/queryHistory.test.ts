@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { QueryHistoryEntry } from '../types';
+import { DEFAULT_MODEL_SETTINGS } from '../services/modelSettings';
+import { searchHistory } from '../services/queryHistory';
+
+const entry = (id: string, query: string, answer: string, storeName: string, pinned = false): QueryHistoryEntry => ({
+    id,
+    timestamp: 0,
+    query,
+    stores: [{ name: storeName, displayName: storeName }],
+    settings: DEFAULT_MODEL_SETTINGS,
+    result: { text: answer, groundingChunks: [], groundingSupports: [] },
+    pinned,
+});
+
+describe('searchHistory', () => {
+    const entries = [
+        entry('1', 'How do I reset the router?', 'Hold the button for ten seconds.', 'stores/a'),
+        entry('2', 'Warranty length', 'The warranty lasts two years.', 'stores/b'),
+        entry('3', 'Router warranty', 'Routers are covered for one year.', 'stores/a', true),
+    ];
+
+    it('matches every word against the query and the answer', () => {
+        expect(searchHistory(entries, 'ROUTER button').map(e => e.id)).toEqual(['1']);
+        expect(searchHistory(entries, 'warranty').map(e => e.id)).toEqual(['3', '2']);
+    });
+
+    it('filters by store and lists pinned entries first', () => {
+        expect(searchHistory(entries, '', 'stores/a').map(e => e.id)).toEqual(['3', '1']);
+    });
+});
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createSessionExport, parseSessionJson, sessionToJson, sessionToMarkdown } from '../services/sessionExport';
+import { DEFAULT_MODEL_SETTINGS } from '../services/modelSettings';
+
+const store = { name: 'fileSearchStores/handbook', displayName: 'Handbook' };
+
+const session = createSessionExport({
+    store,
+    searchStores: [store],
+    documents: [{ name: `${store.name}/documents/leave`, displayName: 'leave.md' }],
+    modelSettings: DEFAULT_MODEL_SETTINGS,
+    thread: {
+        id: 't1',
+        title: 'Leave policy',
+        messages: [
+            { role: 'user', parts: [{ text: 'How many days of leave?' }], metadataFilter: 'year = 2025' },
+            {
+                role: 'model',
+                parts: [{ text: 'You get 25 días. Ask HR for more.' }],
+                groundingChunks: [{ retrievedContext: { title: 'leave.md', text: 'Staff get 25 days.\nPart-time pro rata.' } }],
+                // "días" is 5 bytes in UTF-8, so the segment ends at byte 17 (string index 16).
+                groundingSupports: [{ segment: { startIndex: 0, endIndex: 17 }, groundingChunkIndices: [0] }],
+            },
+        ],
+    },
+});
+
+describe('session export', () => {
+    it('writes Markdown with numbered citations and sources', () => {
+        const markdown = sessionToMarkdown(session);
+
+        expect(markdown).toContain('# Leave policy');
+        expect(markdown).toContain('## Q1. How many days of leave?');
+        expect(markdown).toContain('Metadata filter: `year = 2025`');
+        expect(markdown).toContain('You get 25 días.[1] Ask HR for more.');
+        expect(markdown).toContain('1. **leave.md**\n\n   > Staff get 25 days.\n   > Part-time pro rata.');
+    });
+
+    it('round-trips through JSON and rejects other files', () => {
+        expect(parseSessionJson(sessionToJson(session))).toEqual(session);
+        expect(() => parseSessionJson('{"questions": []}')).toThrow('not an exported session');
+        expect(() => parseSessionJson('not json')).toThrow('not valid JSON');
+    });
+});
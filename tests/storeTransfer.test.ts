@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it, vi } from 'vitest';
+import { CustomMetadata, Document, UploadOptions } from '../types';
+import { RetrievalBackend } from '../services/retrievalBackend';
+import { createTransferJob, prepareTransferResume, runStoreTransfer } from '../services/storeTransfer';
+
+const source = { name: 'stores/source', displayName: 'Source' };
+const target = { name: 'stores/target', displayName: 'Target' };
+const documents: Document[] = [
+    { name: 'stores/source/documents/a', displayName: 'a.txt', customMetadata: [{ key: 'team', stringValue: 'search' }, { key: 'chunk_max_tokens', numericValue: 100 }] },
+    { name: 'stores/source/documents/b', displayName: 'b.txt' },
+    { name: 'stores/source/documents/c', displayName: 'c.txt' },
+];
+
+const fakeBackend = () => ({
+    uploadToRagStore: vi.fn(async (_store: string, _file: File, _metadata: CustomMetadata[], _options: UploadOptions) => {}),
+    deleteDocument: vi.fn(async (_store: string, _docName: string) => {}),
+    // Only b's bytes are kept by the backend.
+    getDocumentFile: vi.fn(async (_store: string, doc: Document) => doc.displayName === 'b.txt' ? new File(['b'], 'b.txt') : undefined),
+});
+
+describe('runStoreTransfer', () => {
+    it('moves documents with their metadata, failing those without a file', async () => {
+        const backend = fakeBackend();
+        const job = createTransferJob({ label: 'Moving', backendId: 'local', sourceStore: source, targetStore: target, documents, deleteSource: true });
+
+        const result = await runStoreTransfer(backend as unknown as RetrievalBackend, job, { files: [new File(['a'], 'a.txt')], onChange: () => {} });
+
+        expect(result.items.map(item => item.status)).toEqual(['done', 'done', 'failed']);
+        expect(result.uploadedDocNames).toEqual([documents[0].name, documents[1].name]);
+        expect(backend.uploadToRagStore).toHaveBeenCalledWith(target.name, expect.any(File), documents[0].customMetadata, expect.objectContaining({
+            displayName: 'a.txt',
+            chunkingConfig: { maxTokensPerChunk: 100, maxOverlapTokens: undefined },
+        }));
+        expect(backend.deleteDocument.mock.calls.map(call => call[1])).toEqual([documents[0].name, documents[1].name]);
+    });
+
+    it('resumes without uploading again what a cut-off run already uploaded', async () => {
+        const backend = fakeBackend();
+        const started = createTransferJob({ label: 'Moving', backendId: 'local', sourceStore: source, targetStore: target, documents, deleteSource: true });
+        const interrupted = {
+            ...started,
+            items: started.items.map((item, index) => ({ ...item, status: index === 0 ? 'done' as const : index === 1 ? 'running' as const : 'failed' as const })),
+        };
+
+        const resumed = prepareTransferResume(interrupted, [{ name: 'stores/target/documents/x', displayName: 'b.txt', createTime: new Date().toISOString() }]);
+        const result = await runStoreTransfer(backend as unknown as RetrievalBackend, resumed, { files: [new File(['c'], 'c.txt')], onChange: () => {} });
+
+        expect(resumed.items.map(item => item.status)).toEqual(['done', 'queued', 'queued']);
+        expect(result.items.map(item => item.status)).toEqual(['done', 'done', 'done']);
+        expect(backend.uploadToRagStore.mock.calls.map(call => call[3].displayName)).toEqual(['c.txt']);
+        expect(backend.deleteDocument.mock.calls.map(call => call[1])).toEqual([documents[1].name, documents[2].name]);
+    });
+
+    it('looks documents up again when resuming a job loaded without them', async () => {
+        const backend = fakeBackend();
+        const started = createTransferJob({ label: 'Cloning', backendId: 'local', sourceStore: source, targetStore: target, documents, deleteSource: false });
+        const saved = { ...started, items: started.items.map(({ document, ...item }) => item) };
+
+        // c.txt was deleted from the source since the job was saved.
+        const resumed = prepareTransferResume(saved, [], documents.slice(0, 2));
+        const result = await runStoreTransfer(backend as unknown as RetrievalBackend, resumed, { files: [new File(['a'], 'a.txt')], onChange: () => {} });
+
+        expect(result.items.map(item => [item.status, item.error])).toEqual([
+            ['done', undefined],
+            ['done', undefined],
+            ['failed', 'The document is no longer in the source store.'],
+        ]);
+        expect(backend.uploadToRagStore.mock.calls[0][2]).toEqual(documents[0].customMetadata);
+    });
+});
@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { estimateCost, summarizeTelemetry } from '../services/telemetry';
+
+describe('estimateCost', () => {
+    it('bills retrieved content as input and thinking as output', () => {
+        const cost = estimateCost('gemini-2.5-flash', { promptTokens: 600_000, toolUsePromptTokens: 400_000, candidatesTokens: 100_000, thoughtsTokens: 100_000 });
+        expect(cost).toBeCloseTo(0.30 + 0.2 * 2.50);
+    });
+
+    it('switches to long-context rates past the prompt threshold', () => {
+        expect(estimateCost('gemini-2.5-pro', { promptTokens: 100_000 })).toBeCloseTo(0.125);
+        expect(estimateCost('gemini-2.5-pro', { promptTokens: 300_000 })).toBeCloseTo(0.75);
+    });
+
+    it('has no estimate for unknown models', () => {
+        expect(estimateCost('some-custom-model', { promptTokens: 10 })).toBeUndefined();
+    });
+});
+
+describe('summarizeTelemetry', () => {
+    it('totals tokens, latency and cost per model', () => {
+        const [flash, local] = summarizeTelemetry([
+            { timestamp: 1, source: 'chat', model: 'gemini-2.5-flash', usage: { promptTokens: 1_000_000, totalTokens: 1_000_000 }, latencyMs: 1000 },
+            { timestamp: 2, source: 'compare', model: 'gemini-2.5-flash', usage: { candidatesTokens: 1_000_000, totalTokens: 1_000_000 }, latencyMs: 3000 },
+            { timestamp: 3, source: 'chat', model: 'Local (offline)', latencyMs: 5 },
+        ]);
+
+        expect(flash).toMatchObject({ queries: 2, totalTokens: 2_000_000, averageLatencyMs: 2000 });
+        expect(flash.cost).toBeCloseTo(2.80);
+        expect(local).toMatchObject({ model: 'Local (offline)', queries: 1, cost: undefined });
+    });
+});
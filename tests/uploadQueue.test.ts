@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it, vi } from 'vitest';
+import { CustomMetadata, UploadOptions, UploadQueueItem } from '../types';
+import { RetrievalBackend } from '../services/retrievalBackend';
+import { createBackendUpload } from '../services/uploadQueue';
+
+const item = (changes: Partial<UploadQueueItem> = {}): UploadQueueItem => ({
+    id: '1',
+    storeName: 'stores/s',
+    displayName: 'report.pdf',
+    file: new File(['new'], 'report.pdf'),
+    metadata: [],
+    status: 'queued',
+    ...changes,
+});
+
+const fakeBackend = () => ({
+    label: 'Fake',
+    uploadToRagStore: vi.fn(async (_store: string, _file: File, _metadata: CustomMetadata[], _options: UploadOptions): Promise<string | undefined> => 'stores/s/documents/new'),
+    deleteDocument: vi.fn(async (_store: string, _docName: string) => {}),
+});
+
+describe('createBackendUpload', () => {
+    it('deletes the replaced document once its replacement is uploaded', async () => {
+        const backend = fakeBackend();
+        const upload = createBackendUpload(() => backend as unknown as RetrievalBackend);
+
+        await upload(item({ replacesDocName: 'stores/s/documents/old' }), new AbortController().signal, () => {});
+
+        expect(backend.uploadToRagStore).toHaveBeenCalledTimes(1);
+        expect(backend.deleteDocument).toHaveBeenCalledWith('stores/s', 'stores/s/documents/old');
+        expect(backend.uploadToRagStore.mock.invocationCallOrder[0]).toBeLessThan(backend.deleteDocument.mock.invocationCallOrder[0]);
+    });
+
+    it('keeps the replaced document when the upload fails', async () => {
+        const backend = fakeBackend();
+        backend.uploadToRagStore.mockRejectedValueOnce(new Error('quota'));
+        const upload = createBackendUpload(() => backend as unknown as RetrievalBackend);
+
+        await expect(upload(item({ replacesDocName: 'stores/s/documents/old' }), new AbortController().signal, () => {})).rejects.toThrow('quota');
+        expect(backend.deleteDocument).not.toHaveBeenCalled();
+    });
+
+    it('retries only the delete when the upload went through', async () => {
+        const backend = fakeBackend();
+        backend.deleteDocument.mockRejectedValueOnce(new Error('unavailable'));
+        const upload = createBackendUpload(() => backend as unknown as RetrievalBackend);
+        const replacing = item({ replacesDocName: 'stores/s/documents/old' });
+
+        await expect(upload(replacing, new AbortController().signal, () => {})).rejects.toThrow(/^Uploaded, but the replaced document couldn't be deleted \(unavailable\)/);
+        await upload(replacing, new AbortController().signal, () => {});
+
+        expect(backend.uploadToRagStore).toHaveBeenCalledTimes(1);
+        expect(backend.deleteDocument).toHaveBeenCalledTimes(2);
+    });
+
+    it('only uploads when nothing is replaced', async () => {
+        const backend = fakeBackend();
+        await createBackendUpload(() => backend as unknown as RetrievalBackend)(item(), new AbortController().signal, () => {});
+        expect(backend.deleteDocument).not.toHaveBeenCalled();
+    });
+});
@@ -5,6 +5,14 @@
 export interface RagStore {
     name: string;
     displayName: string;
+    // The rest is only filled in by backends that report it.
+    createTime?: string;
+    updateTime?: string;
+    activeDocumentsCount?: number;
+    pendingDocumentsCount?: number;
+    failedDocumentsCount?: number;
+    sizeBytes?: number;
+    embeddingModel?: string;
 }
 
 export interface CustomMetadata {
@@ -16,21 +24,249 @@ export interface CustomMetadata {
   numericValue?: number;
 }
 
+// `pending` documents are still being chunked and embedded; `failed` ones
+// can't be searched, fully or in part.
+export type DocumentState = 'active' | 'pending' | 'failed' | 'unknown';
+
 export interface Document {
     name: string;
     displayName: string;
     customMetadata?: CustomMetadata[];
+    state?: DocumentState;
+    sizeBytes?: number;
+    mimeType?: string;
+    createTime?: string;
+    updateTime?: string;
+}
+
+export interface PageOptions {
+    pageSize?: number;
+    pageToken?: string;
+}
+
+export interface DocumentPage {
+    documents: Document[];
+    // Absent on the last page.
+    nextPageToken?: string;
+}
+
+export interface DocumentUpdate {
+    displayName: string;
+    customMetadata: CustomMetadata[];
+}
+
+export type MetadataValueType = 'string' | 'stringList' | 'numeric';
+
+// One expected metadata key of a store, used to build and check upload forms.
+export interface MetadataFieldSchema {
+    key: string;
+    valueType: MetadataValueType;
+    required: boolean;
+    // Empty means any value is allowed. Not used for numbers.
+    allowedValues: string[];
+}
+
+export interface MetadataKeyInfo {
+    key: string;
+    valueType: MetadataValueType;
+    values: string[];
+}
+
+export type MetadataFilterOperator = 'eq' | 'in' | 'range';
+
+export interface MetadataFilterCondition {
+    id: string;
+    key: string;
+    valueType: MetadataValueType;
+    operator: MetadataFilterOperator;
+    // `eq` uses the first value, `in` matches any of them. Ranges use min/max.
+    values: string[];
+    min?: number;
+    max?: number;
+}
+
+export interface MetadataFilter {
+    combinator: 'AND' | 'OR';
+    conditions: MetadataFilterCondition[];
 }
 
 export interface GroundingChunk {
     retrievedContext?: {
         text?: string;
+        // Name of the store the chunk was retrieved from.
+        fileSearchStore?: string;
+        // Identify the document the chunk belongs to. Which of these are set
+        // varies, so `findSourceDocument` checks all of them.
+        title?: string;
+        uri?: string;
+        documentName?: string;
+        customMetadata?: CustomMetadata[];
     };
 }
 
+export interface GroundingSupport {
+    // The span of the answer backed by the referenced chunks. Offsets are in
+    // UTF-8 bytes, as reported by the API.
+    segment?: {
+        startIndex?: number;
+        endIndex?: number;
+        text?: string;
+    };
+    groundingChunkIndices?: number[];
+}
+
+export interface TokenUsage {
+    promptTokens?: number;
+    candidatesTokens?: number;
+    // Tokens of retrieved content added to the prompt by the File Search tool.
+    toolUsePromptTokens?: number;
+    thoughtsTokens?: number;
+    totalTokens?: number;
+}
+
 export interface QueryResult {
     text: string;
     groundingChunks: GroundingChunk[];
+    groundingSupports: GroundingSupport[];
+    // Set when the request was stopped before the answer was complete.
+    aborted?: boolean;
+    // Only reported by backends that call a model.
+    usage?: TokenUsage;
+    // Wall-clock time from sending the request to the end of the answer.
+    latencyMs?: number;
+    // Set by backends that answer without a Gemini model, naming what answered instead.
+    answeredBy?: string;
+}
+
+export type SafetyThreshold = 'BLOCK_NONE' | 'BLOCK_ONLY_HIGH' | 'BLOCK_MEDIUM_AND_ABOVE' | 'BLOCK_LOW_AND_ABOVE';
+
+export interface ModelSettings {
+    model: string;
+    systemInstruction: string;
+    // Unset generation values fall back to the model's defaults.
+    temperature?: number;
+    topP?: number;
+    maxOutputTokens?: number;
+    thinkingBudget?: number;
+    // Keyed by harm category, e.g. `HARM_CATEGORY_HARASSMENT`.
+    safetyThresholds: Record<string, SafetyThreshold>;
+}
+
+export interface FileSearchOptions {
+    history?: ChatMessage[];
+    metadataFilter?: string;
+    settings?: ModelSettings;
+    abortSignal?: AbortSignal;
+    // Called with the full answer text so far each time a new chunk arrives.
+    onText?: (text: string) => void;
+}
+
+export interface ChunkingConfig {
+    // Unset values use the service defaults.
+    maxTokensPerChunk?: number;
+    maxOverlapTokens?: number;
+}
+
+export interface ChunkingPreset extends ChunkingConfig {
+    name: string;
+}
+
+export interface UploadOptions {
+    // Defaults to the file name.
+    displayName?: string;
+    chunkingConfig?: ChunkingConfig;
+    abortSignal?: AbortSignal;
+    // Called once the bytes are uploaded and the store starts indexing them.
+    onIndexing?: () => void;
+}
+
+export type UploadStatus = 'queued' | 'uploading' | 'indexing' | 'done' | 'failed' | 'cancelled';
+
+export interface PendingOperation {
+    name: string;
+    storeName: string;
+    displayName: string;
+    startedAt: number;
+}
+
+export type BulkItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped' | 'cancelled';
+
+export interface BulkItem {
+    docName: string;
+    displayName: string;
+    status: BulkItemStatus;
+    // Why it failed or was skipped.
+    error?: string;
+}
+
+export interface BulkOperation {
+    label: string;
+    storeName: string;
+    items: BulkItem[];
+    isRunning: boolean;
+}
+
+// The original bytes of an uploaded file, kept in the browser under the
+// document it became.
+export interface CachedFile {
+    docName: string;
+    storeName: string;
+    displayName: string;
+    // SHA-256 of the content, hex encoded.
+    hash: string;
+    mimeType: string;
+    sizeBytes: number;
+    cachedAt: number;
+    content: Blob;
+}
+
+// A file about to be uploaded that is already in the store: the same bytes
+// under any name, or different bytes under the same display name.
+export interface UploadDuplicate {
+    file: File;
+    kind: 'identical' | 'changed';
+    existing: { docName: string, displayName: string };
+}
+
+export type UploadDuplicateAction = 'skip' | 'upload' | 'replace';
+
+export interface StoreTransferItem extends BulkItem {
+    // Not saved with the job; looked up in the source store again on resume.
+    document?: Document;
+}
+
+// A clone or move of documents between stores. Its progress is saved as it runs
+// so it can be resumed after a reload; the documents and files it uploads are not.
+export interface StoreTransferJob {
+    id: string;
+    label: string;
+    // Jobs only resume against the backend they were started on.
+    backendId: string;
+    sourceStore: RagStore;
+    targetStore: RagStore;
+    // Unset keeps the chunking each document was indexed with.
+    chunkingConfig?: ChunkingConfig;
+    // Moves delete each source document once its copy is uploaded.
+    deleteSource: boolean;
+    // Uploaded to the target but, for moves, maybe not yet deleted from the source.
+    uploadedDocNames: string[];
+    items: StoreTransferItem[];
+    startedAt: number;
+}
+
+export interface UploadQueueItem {
+    id: string;
+    storeName: string;
+    displayName: string;
+    // Imports resumed after a reload have no file, only the operation to wait on.
+    file?: File;
+    operationName?: string;
+    metadata: CustomMetadata[];
+    chunkingConfig?: ChunkingConfig;
+    // Deleted once this upload has been indexed.
+    replacesDocName?: string;
+    status: UploadStatus;
+    error?: string;
 }
 
 export enum AppStatus {
@@ -45,4 +281,103 @@ export interface ChatMessage {
     role: 'user' | 'model';
     parts: { text: string }[];
     groundingChunks?: GroundingChunk[];
-}
\ No newline at end of file
+    groundingSupports?: GroundingSupport[];
+    metadataFilter?: string;
+    storeNames?: string[];
+    aborted?: boolean;
+    // The settings the answer was generated with.
+    settings?: ModelSettings;
+    // See QueryResult.answeredBy; shown in place of the settings' model.
+    answeredBy?: string;
+    usage?: TokenUsage;
+    latencyMs?: number;
+}
+
+export interface ChatThread {
+    id: string;
+    title: string;
+    messages: ChatMessage[];
+}
+
+export interface EvalQuestion {
+    question: string;
+    // Any of these counts as a correct answer; the best match is scored.
+    expectedAnswers?: string[];
+    // Display names or resource names of the documents that should be retrieved.
+    expectedSources?: string[];
+}
+
+export interface EvalQuestionResult {
+    question: string;
+    answer: string;
+    // Retrieved source documents in rank order, deduplicated.
+    retrievedSources: string[];
+    // Only set when the question has expected sources or answers to score against.
+    sourceHit?: boolean;
+    recallAtK?: number;
+    answerSimilarity?: number;
+    error?: string;
+}
+
+export interface EvalSummary {
+    questionCount: number;
+    failedCount: number;
+    sourceHitRate?: number;
+    meanRecallAtK?: number;
+    meanAnswerSimilarity?: number;
+}
+
+export interface EvalRun {
+    id: string;
+    name: string;
+    startedAt: number;
+    storeNames: string[];
+    k: number;
+    settings: ModelSettings;
+    results: EvalQuestionResult[];
+    summary: EvalSummary;
+}
+
+// One side of an A/B comparison.
+export interface CompareConfig {
+    storeNames: string[];
+    settings: ModelSettings;
+}
+
+export type QuerySource = 'chat' | 'compare' | 'evaluate' | 'rerun';
+
+// One model call, kept for the session usage dashboard.
+export interface QueryTelemetry {
+    timestamp: number;
+    source: QuerySource;
+    model: string;
+    usage?: TokenUsage;
+    latencyMs?: number;
+}
+
+// A conversation saved to a file, with enough context to read it back later.
+export interface ExportedSession {
+    version: 1;
+    exportedAt: string;
+    store: RagStore;
+    // Every store the conversation searched, including `store`.
+    searchStores: RagStore[];
+    // The documents in `store` when the session was exported.
+    documents: Document[];
+    modelSettings: ModelSettings;
+    thread: ChatThread;
+}
+
+export interface QueryHistoryEntry {
+    id: string;
+    timestamp: number;
+    query: string;
+    // The stores searched; kept whole so entries still read well after a store is deleted.
+    stores: RagStore[];
+    metadataFilter?: string;
+    settings: ModelSettings;
+    result: QueryResult;
+    pinned: boolean;
+    // Set on entries created by re-running an earlier one.
+    rerunOf?: string;
+}